@@ -3,6 +3,7 @@ export * from './lib/fileRegistry';
 export * from './lib/linkedCodeMap';
 export * from './lib/types';
 export * from './lib/utils';
+export * from './lib/validateVirtualCode';
 export * from '@volar/source-map';
 
 export function resolveCommonLanguageId(fileNameOrUri: string) {
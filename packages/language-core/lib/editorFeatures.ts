@@ -1,81 +1,100 @@
-import type { CodeInformation } from './types';
+import type { CodeInformation, FeatureOverride } from './types';
 
 export function isHoverEnabled(info: CodeInformation): boolean {
-	return !!info.semantic;
+	return isFeatureEnabled(info.hover, !!info.semantic);
 }
 
 export function isInlayHintsEnabled(info: CodeInformation): boolean {
-	return !!info.semantic;
+	return isFeatureEnabled(info.inlayHints, !!info.semantic);
 }
 
 export function isCodeLensEnabled(info: CodeInformation): boolean {
-	return !!info.semantic;
+	return isFeatureEnabled(info.codeLens, !!info.semantic);
 }
 
 export function isSemanticTokensEnabled(info: CodeInformation): boolean {
-	return typeof info.semantic === 'object'
-		? info.semantic.shouldHighlight?.() ?? true
-		: info.semantic;
+	const semanticTokens = info.semanticTokens ?? info.semantic;
+	return typeof semanticTokens === 'object'
+		? semanticTokens.shouldHighlight?.() ?? true
+		: semanticTokens;
+}
+
+export function isInlineValuesEnabled(info: CodeInformation): boolean {
+	return isFeatureEnabled(info.inlineValues, !!info.semantic);
 }
 
 export function isCallHierarchyEnabled(info: CodeInformation): boolean {
-	return !!info.navigation;
+	return isFeatureEnabled(info.callHierarchy, !!info.navigation);
+}
+
+export function isTypeHierarchyEnabled(info: CodeInformation): boolean {
+	return isFeatureEnabled(info.typeHierarchy, !!info.navigation);
 }
 
 export function isRenameEnabled(info: CodeInformation): boolean {
-	return !!info.navigation;
+	return typeof info.rename === 'object'
+		? info.rename.shouldRename?.() ?? true
+		: info.rename ?? !!info.navigation;
 }
 
 export function isDefinitionEnabled(info: CodeInformation): boolean {
-	return !!info.navigation;
+	return isFeatureEnabled(info.definition, !!info.navigation);
+}
+
+export function isDeclarationEnabled(info: CodeInformation): boolean {
+	return isFeatureEnabled(info.declaration, !!info.navigation);
 }
 
 export function isTypeDefinitionEnabled(info: CodeInformation): boolean {
-	return !!info.navigation;
+	return isFeatureEnabled(info.typeDefinition, !!info.navigation);
 }
 
 export function isReferencesEnabled(info: CodeInformation): boolean {
-	return !!info.navigation;
+	return isFeatureEnabled(info.references, !!info.navigation);
 }
 
 export function isImplementationEnabled(info: CodeInformation): boolean {
-	return !!info.navigation;
+	return isFeatureEnabled(info.implementation, !!info.navigation);
 }
 
 export function isHighlightEnabled(info: CodeInformation): boolean {
-	return !!info.navigation;
+	return isFeatureEnabled(info.highlight, !!info.navigation);
+}
+
+export function isMonikerEnabled(info: CodeInformation): boolean {
+	return isFeatureEnabled(info.monikers, !!info.navigation);
 }
 
 export function isSymbolsEnabled(info: CodeInformation): boolean {
-	return info.structure;
+	return isFeatureEnabled(info.symbols, info.structure);
 }
 
 export function isFoldingRangesEnabled(info: CodeInformation): boolean {
-	return info.structure;
+	return isFeatureEnabled(info.foldingRanges, info.structure);
 }
 
 export function isSelectionRangesEnabled(info: CodeInformation): boolean {
-	return info.structure;
+	return isFeatureEnabled(info.selectionRanges, info.structure);
 }
 
 export function isLinkedEditingEnabled(info: CodeInformation): boolean {
-	return info.structure;
+	return isFeatureEnabled(info.linkedEditing, info.structure);
 }
 
 export function isColorEnabled(info: CodeInformation): boolean {
-	return info.structure;
+	return isFeatureEnabled(info.colors, info.structure);
 }
 
 export function isDocumentLinkEnabled(info: CodeInformation): boolean {
-	return info.structure;
+	return isFeatureEnabled(info.documentLinks, info.structure);
 }
 
 export function isDiagnosticsEnabled(info: CodeInformation): boolean {
-	return !!info.verification;
+	return !!(info.diagnostics ?? info.verification);
 }
 
 export function isCodeActionsEnabled(info: CodeInformation): boolean {
-	return !!info.verification;
+	return isFeatureEnabled(info.codeActions, !!info.verification);
 }
 
 export function isFormattingEnabled(info: CodeInformation): boolean {
@@ -87,31 +106,44 @@ export function isCompletionEnabled(info: CodeInformation): boolean {
 }
 
 export function isAutoInsertEnabled(info: CodeInformation): boolean {
-	return !!info.completion;
+	return isFeatureEnabled(info.autoInsert, !!info.completion);
 }
 
 export function isSignatureHelpEnabled(info: CodeInformation): boolean {
-	return !!info.completion;
+	return isFeatureEnabled(info.signatureHelp, !!info.completion);
 }
 
 // should...
 
 export function shouldReportDiagnostics(info: CodeInformation): boolean {
-	return typeof info.verification === 'object'
-		? info.verification.shouldReport?.() ?? true
-		: info.verification;
+	const diagnostics = info.diagnostics ?? info.verification;
+	return typeof diagnostics === 'object'
+		? diagnostics.shouldReport?.() ?? true
+		: diagnostics;
 }
 
 //  resolve...
 
 export function resolveRenameNewName(newName: string, info: CodeInformation): string {
+	if (typeof info.rename === 'object') {
+		return info.rename.resolveRenameNewName?.(newName) ?? newName;
+	}
 	return typeof info.navigation === 'object'
 		? info.navigation.resolveRenameNewName?.(newName) ?? newName
 		: newName;
 }
 
 export function resolveRenameEditText(text: string, info: CodeInformation): string {
+	if (typeof info.rename === 'object') {
+		return info.rename.resolveRenameEditText?.(text) ?? text;
+	}
 	return typeof info.navigation === 'object'
 		? info.navigation.resolveRenameEditText?.(text) ?? text
 		: text;
 }
+
+function isFeatureEnabled(override: boolean | FeatureOverride | undefined, fallback: boolean): boolean {
+	return typeof override === 'object'
+		? override.shouldEnable?.() ?? true
+		: override ?? fallback;
+}
@@ -1,12 +1,21 @@
 import { SourceMap } from '@volar/source-map';
 import type * as ts from 'typescript';
 import { LinkedCodeMap } from './linkedCodeMap';
-import type { CodeInformation, LanguagePlugin, SourceFile, VirtualCode } from './types';
+import type { CodeInformation, LanguagePlugin, SourceFile, VirtualCode, VirtualCodeProblem } from './types';
 import { FileMap } from './utils';
+import { validateVirtualCode } from './validateVirtualCode';
 
 export type FileRegistry = ReturnType<typeof createFileRegistry>;
 
-export function createFileRegistry(languagePlugins: LanguagePlugin[], caseSensitive: boolean, sync: (id: string) => void) {
+/**
+ * @param debug If provided, virtual codes are validated after every create and update, and problems are reported to it.
+ */
+export function createFileRegistry(
+	languagePlugins: LanguagePlugin[],
+	caseSensitive: boolean,
+	sync: (id: string) => void,
+	debug?: (sourceFile: SourceFile, problems: VirtualCodeProblem[]) => void,
+) {
 
 	const sourceFiles = new FileMap<SourceFile>(caseSensitive);
 	const virtualCodeToSourceFileMap = new WeakMap<VirtualCode, SourceFile>();
@@ -26,12 +35,17 @@ export function createFileRegistry(languagePlugins: LanguagePlugin[], caseSensit
 				}
 				else if (value.snapshot !== snapshot) {
 					// snapshot updated
+					const oldSnapshot = value.snapshot;
 					value.snapshot = snapshot;
 					if (value.generated) {
-						value.generated.code = value.generated.languagePlugin.updateVirtualCode(id, value.generated.code, snapshot, this);
+						value.generated.code = value.generated.languagePlugin.updateVirtualCode(id, value.generated.code, snapshot, this, {
+							oldSnapshot,
+							changeRange: snapshot.getChangeRange(oldSnapshot),
+						});
 						for (const code of forEachEmbeddedCode(value.generated.code)) {
 							virtualCodeToSourceFileMap.set(code, value);
 						}
+						validate(value);
 					}
 					return value;
 				}
@@ -55,6 +69,7 @@ export function createFileRegistry(languagePlugins: LanguagePlugin[], caseSensit
 					for (const code of forEachEmbeddedCode(virtualCode)) {
 						virtualCodeToSourceFileMap.set(code, sourceFile);
 					}
+					validate(sourceFile);
 					break;
 				}
 			}
@@ -119,6 +134,26 @@ export function createFileRegistry(languagePlugins: LanguagePlugin[], caseSensit
 			return [undefined, undefined] as const;
 		},
 	};
+
+	function validate(sourceFile: SourceFile) {
+		if (!debug || !sourceFile.generated) {
+			return;
+		}
+		const problems = validateVirtualCode(sourceFile, sourceFile.generated.code, sourceFileId => {
+			if (sourceFileId) {
+				const source = sourceFiles.get(sourceFileId);
+				if (source) {
+					return [sourceFileId, source.snapshot];
+				}
+			}
+			else {
+				return [sourceFile.id, sourceFile.snapshot];
+			}
+		});
+		if (problems.length) {
+			debug(sourceFile, problems);
+		}
+	}
 }
 
 export function updateVirtualCodeMaps(
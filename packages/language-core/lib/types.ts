@@ -51,12 +51,67 @@ export interface CodeInformation {
 	structure: boolean;
 	/** virtual code is expected correctly reflect the format information of the source code */
 	format: boolean;
+	/** per-feature overrides of `semantic` */
+	hover?: boolean | FeatureOverride;
+	inlayHints?: boolean | FeatureOverride;
+	codeLens?: boolean | FeatureOverride;
+	semanticTokens?: boolean | {
+		shouldHighlight?(): boolean;
+	};
+	inlineValues?: boolean | FeatureOverride;
+	/** per-feature overrides of `navigation` */
+	callHierarchy?: boolean | FeatureOverride;
+	typeHierarchy?: boolean | FeatureOverride;
+	rename?: boolean | {
+		shouldRename?(): boolean;
+		resolveRenameNewName?(newName: string): string;
+		resolveRenameEditText?(newText: string): string;
+	};
+	definition?: boolean | FeatureOverride;
+	declaration?: boolean | FeatureOverride;
+	typeDefinition?: boolean | FeatureOverride;
+	references?: boolean | FeatureOverride;
+	implementation?: boolean | FeatureOverride;
+	highlight?: boolean | FeatureOverride;
+	monikers?: boolean | FeatureOverride;
+	/** per-feature overrides of `structure` */
+	symbols?: boolean | FeatureOverride;
+	foldingRanges?: boolean | FeatureOverride;
+	selectionRanges?: boolean | FeatureOverride;
+	linkedEditing?: boolean | FeatureOverride;
+	colors?: boolean | FeatureOverride;
+	documentLinks?: boolean | FeatureOverride;
+	/** per-feature overrides of `verification` */
+	diagnostics?: boolean | {
+		shouldReport?(): boolean;
+	};
+	codeActions?: boolean | FeatureOverride;
+	/** per-feature overrides of `completion` */
+	autoInsert?: boolean | FeatureOverride;
+	signatureHelp?: boolean | FeatureOverride;
+}
+
+/** object form of a per-feature override, the feature is enabled unless `shouldEnable` returns false */
+export interface FeatureOverride {
+	shouldEnable?(): boolean;
+}
+
+export interface VirtualCodeProblem {
+	type: 'duplicateId' | 'invalidMapping' | 'unknownSource' | 'sourceOutOfRange' | 'generatedOutOfRange' | 'conflictingData';
+	message: string;
+	virtualCode: VirtualCode;
+	mapping?: CodeMapping;
 }
 
 export interface LanguagePlugin<T extends VirtualCode = VirtualCode> {
 	createVirtualCode(fileId: string, languageId: string, snapshot: ts.IScriptSnapshot, files?: FileRegistry): T | undefined;
-	updateVirtualCode(fileId: string, virtualCode: T, newSnapshot: ts.IScriptSnapshot, files?: FileRegistry): T;
+	updateVirtualCode(fileId: string, virtualCode: T, newSnapshot: ts.IScriptSnapshot, files?: FileRegistry, change?: SnapshotChange): T;
 	disposeVirtualCode?(fileId: string, virtualCode: T, files?: FileRegistry): void;
+	/**
+	 * Language id of the source document at `offset`, e.g. `html` in the template of a Vue file.
+	 * Used for the comment syntax of comments inserted into the source document, defaults to the language id of the source document.
+	 */
+	getLanguageIdAtOffset?(rootVirtualCode: T, offset: number): string | undefined;
 	typescript?: {
 		extraFileExtensions: ts.FileExtensionInfo[];
 		resolveLanguageServiceHost?(host: ts.LanguageServiceHost): ts.LanguageServiceHost;
@@ -68,6 +123,13 @@ export interface LanguagePlugin<T extends VirtualCode = VirtualCode> {
 	};
 }
 
+export interface SnapshotChange {
+	/** the snapshot that the virtual code was last created or updated from */
+	oldSnapshot: ts.IScriptSnapshot;
+	/** combined change range from `oldSnapshot` to the new snapshot, `undefined` if it cannot be determined */
+	changeRange: ts.TextChangeRange | undefined;
+}
+
 export interface LanguageContext {
 	files: FileRegistry;
 	typescript?: {
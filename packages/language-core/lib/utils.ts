@@ -1,3 +1,6 @@
+import type { Mapping } from '@volar/source-map';
+import type * as ts from 'typescript';
+
 export class FileMap<T> extends Map<string, T> {
 
 	private originalFileNames = new Map<string, string>();
@@ -37,3 +40,50 @@ export class FileMap<T> extends Map<string, T> {
 		return this.caseSensitive ? id : id.toLowerCase();
 	}
 }
+
+/**
+ * Reuse mappings of unchanged regions after a snapshot update.
+ * Segments before the change are kept as is, segments after the change are shifted,
+ * and segments that overlap the change on either side are dropped so they can be regenerated.
+ */
+export function updateCodeMappings<T>(
+	mappings: Mapping<T>[],
+	sourceChangeRange: ts.TextChangeRange,
+	generatedChangeRange: ts.TextChangeRange,
+) {
+	const result: Mapping<T>[] = [];
+	for (const mapping of mappings) {
+		const sourceOffsets: number[] = [];
+		const generatedOffsets: number[] = [];
+		const lengths: number[] = [];
+		for (let i = 0; i < mapping.lengths.length; i++) {
+			const sourceOffset = shiftOffset(mapping.sourceOffsets[i], mapping.lengths[i], sourceChangeRange);
+			const generatedOffset = shiftOffset(mapping.generatedOffsets[i], mapping.lengths[i], generatedChangeRange);
+			if (sourceOffset !== undefined && generatedOffset !== undefined) {
+				sourceOffsets.push(sourceOffset);
+				generatedOffsets.push(generatedOffset);
+				lengths.push(mapping.lengths[i]);
+			}
+		}
+		if (lengths.length) {
+			result.push({
+				...mapping,
+				sourceOffsets,
+				generatedOffsets,
+				lengths,
+			});
+		}
+	}
+	return result;
+}
+
+function shiftOffset(offset: number, length: number, changeRange: ts.TextChangeRange) {
+	const changeStart = changeRange.span.start;
+	const changeEnd = changeRange.span.start + changeRange.span.length;
+	if (offset + length <= changeStart) {
+		return offset;
+	}
+	if (offset >= changeEnd) {
+		return offset + changeRange.newLength - changeRange.span.length;
+	}
+}
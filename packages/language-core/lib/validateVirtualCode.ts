@@ -0,0 +1,169 @@
+import type * as ts from 'typescript';
+import { forEachEmbeddedCode, updateVirtualCodeMaps } from './fileRegistry';
+import type { CodeInformation, CodeMapping, SourceFile, VirtualCode, VirtualCodeProblem } from './types';
+
+interface Segment {
+	mapping: CodeMapping;
+	sourceOffset: number;
+	generatedOffset: number;
+	length: number;
+}
+
+/**
+ * Check the virtual code tree of a source file for mistakes that would otherwise make language features silently fail.
+ * By default, only mappings to `sourceFile` itself can be resolved, pass `getSourceSnapshot` to resolve other sources.
+ */
+export function validateVirtualCode(
+	sourceFile: SourceFile,
+	virtualCode: VirtualCode,
+	getSourceSnapshot: (sourceId: string | undefined) => [string, ts.IScriptSnapshot] | undefined = sourceId => {
+		if (sourceId === undefined || sourceId === sourceFile.id) {
+			return [sourceFile.id, sourceFile.snapshot];
+		}
+	},
+) {
+
+	const problems: VirtualCodeProblem[] = [];
+	const ids = new Set<string>();
+
+	for (const code of forEachEmbeddedCode(virtualCode)) {
+
+		if (ids.has(code.id)) {
+			problems.push({
+				type: 'duplicateId',
+				message: `Virtual code id "${code.id}" is used more than once.`,
+				virtualCode: code,
+			});
+		}
+		ids.add(code.id);
+
+		const generatedLength = code.snapshot.getLength();
+		const resolvedMappings = new Set<CodeMapping>();
+
+		for (const [sourceId, [sourceSnapshot, map]] of updateVirtualCodeMaps(code, getSourceSnapshot)) {
+
+			const sourceLength = sourceSnapshot.getLength();
+			const segments: Segment[] = [];
+
+			for (const mapping of map.mappings) {
+
+				resolvedMappings.add(mapping);
+
+				if (
+					mapping.sourceOffsets.length !== mapping.lengths.length
+					|| mapping.generatedOffsets.length !== mapping.lengths.length
+				) {
+					problems.push({
+						type: 'invalidMapping',
+						message: `Mapping has ${mapping.sourceOffsets.length} source offsets, ${mapping.generatedOffsets.length} generated offsets and ${mapping.lengths.length} lengths.`,
+						virtualCode: code,
+						mapping,
+					});
+					continue;
+				}
+
+				for (let i = 0; i < mapping.lengths.length; i++) {
+					const sourceOffset = mapping.sourceOffsets[i];
+					const generatedOffset = mapping.generatedOffsets[i];
+					const length = mapping.lengths[i];
+					if (sourceOffset < 0 || generatedOffset < 0 || length < 0) {
+						problems.push({
+							type: 'invalidMapping',
+							message: `Mapping segment [${sourceOffset}, ${generatedOffset}, ${length}] has a negative value.`,
+							virtualCode: code,
+							mapping,
+						});
+						continue;
+					}
+					if (sourceOffset + length > sourceLength) {
+						problems.push({
+							type: 'sourceOutOfRange',
+							message: `Mapping source range [${sourceOffset}, ${sourceOffset + length}] exceeds the length ${sourceLength} of "${sourceId}".`,
+							virtualCode: code,
+							mapping,
+						});
+					}
+					if (generatedOffset + length > generatedLength) {
+						problems.push({
+							type: 'generatedOutOfRange',
+							message: `Mapping generated range [${generatedOffset}, ${generatedOffset + length}] exceeds the length ${generatedLength} of "${code.id}".`,
+							virtualCode: code,
+							mapping,
+						});
+					}
+					segments.push({ mapping, sourceOffset, generatedOffset, length });
+				}
+			}
+
+			problems.push(...findConflictingSegments(code, segments));
+		}
+
+		for (const mapping of code.mappings) {
+			if (!resolvedMappings.has(mapping)) {
+				problems.push({
+					type: 'unknownSource',
+					message: `Mapping source "${mapping.source}" does not exist.`,
+					virtualCode: code,
+					mapping,
+				});
+			}
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * Overlapping segments that map the same region but disagree on which features are enabled,
+ * the result of feature requests then depends on the order of the mappings.
+ */
+function findConflictingSegments(code: VirtualCode, segments: Segment[]) {
+
+	const problems: VirtualCodeProblem[] = [];
+	const reported = new Set<string>();
+	const active: Segment[] = [];
+
+	segments.sort((a, b) => a.generatedOffset - b.generatedOffset);
+
+	for (const segment of segments) {
+
+		for (let i = active.length - 1; i >= 0; i--) {
+			if (active[i].generatedOffset + active[i].length <= segment.generatedOffset) {
+				active.splice(i, 1);
+			}
+		}
+
+		for (const other of active) {
+			if (
+				other.mapping === segment.mapping
+				|| other.generatedOffset - other.sourceOffset !== segment.generatedOffset - segment.sourceOffset
+			) {
+				continue;
+			}
+			const conflictingKeys = getConflictingKeys(other.mapping.data, segment.mapping.data);
+			if (!conflictingKeys.length) {
+				continue;
+			}
+			const mappingIndexes = [code.mappings.indexOf(other.mapping), code.mappings.indexOf(segment.mapping)].sort((a, b) => a - b).join(',');
+			if (reported.has(mappingIndexes)) {
+				continue;
+			}
+			reported.add(mappingIndexes);
+			problems.push({
+				type: 'conflictingData',
+				message: `Mappings overlap at generated offset ${segment.generatedOffset} with conflicting ${conflictingKeys.map(key => `"${key}"`).join(', ')}.`,
+				virtualCode: code,
+				mapping: segment.mapping,
+			});
+		}
+
+		active.push(segment);
+	}
+
+	return problems;
+}
+
+function getConflictingKeys(a: CodeInformation, b: CodeInformation) {
+	const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof CodeInformation>;
+	return [...keys].filter(key => !!a[key] !== !!b[key]);
+}
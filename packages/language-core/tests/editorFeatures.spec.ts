@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'vitest';
+import { isColorEnabled, isFoldingRangesEnabled, isHoverEnabled, isInlayHintsEnabled, isRenameEnabled, resolveRenameNewName } from '../lib/editorFeatures';
+import type { CodeInformation } from '../lib/types';
+
+const allFeatures: CodeInformation = {
+	verification: true,
+	completion: true,
+	semantic: true,
+	navigation: true,
+	structure: true,
+	format: true,
+};
+
+describe('editorFeatures', () => {
+	test('coarse flags are used without overrides', () => {
+		expect(isHoverEnabled(allFeatures)).toBe(true);
+		expect(isInlayHintsEnabled({ ...allFeatures, semantic: false })).toBe(false);
+	});
+
+	test('boolean overrides', () => {
+		const info: CodeInformation = { ...allFeatures, inlayHints: false, foldingRanges: false };
+		expect(isHoverEnabled(info)).toBe(true);
+		expect(isInlayHintsEnabled(info)).toBe(false);
+		expect(isColorEnabled(info)).toBe(true);
+		expect(isFoldingRangesEnabled(info)).toBe(false);
+	});
+
+	test('object overrides', () => {
+		const info: CodeInformation = {
+			...allFeatures,
+			semantic: false,
+			hover: {},
+			inlayHints: { shouldEnable: () => false },
+		};
+		expect(isHoverEnabled(info)).toBe(true);
+		expect(isInlayHintsEnabled(info)).toBe(false);
+	});
+
+	test('rename override', () => {
+		const info: CodeInformation = {
+			...allFeatures,
+			navigation: false,
+			rename: { resolveRenameNewName: newName => newName.toUpperCase() },
+		};
+		expect(isRenameEnabled(info)).toBe(true);
+		expect(resolveRenameNewName('foo', info)).toBe('FOO');
+		expect(isRenameEnabled({ ...info, rename: { shouldRename: () => false } })).toBe(false);
+	});
+});
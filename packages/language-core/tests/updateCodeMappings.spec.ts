@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'vitest';
+import { updateCodeMappings } from '../lib/utils';
+
+describe('updateCodeMappings', () => {
+	const mappings = [
+		{ sourceOffsets: [0], generatedOffsets: [10], lengths: [5], data: 'a' },
+		{ sourceOffsets: [10], generatedOffsets: [20], lengths: [5], data: 'b' },
+		{ sourceOffsets: [20], generatedOffsets: [30], lengths: [5], data: 'c' },
+	];
+
+	test('keep mappings before the change', () => {
+		expect(updateCodeMappings(
+			mappings,
+			{ span: { start: 30, length: 0 }, newLength: 3 },
+			{ span: { start: 40, length: 0 }, newLength: 3 },
+		)).toEqual(mappings);
+	});
+
+	test('shift mappings after the change', () => {
+		expect(updateCodeMappings(
+			mappings,
+			{ span: { start: 7, length: 1 }, newLength: 3 },
+			{ span: { start: 17, length: 1 }, newLength: 3 },
+		)).toEqual([
+			{ sourceOffsets: [0], generatedOffsets: [10], lengths: [5], data: 'a' },
+			{ sourceOffsets: [12], generatedOffsets: [22], lengths: [5], data: 'b' },
+			{ sourceOffsets: [22], generatedOffsets: [32], lengths: [5], data: 'c' },
+		]);
+	});
+
+	test('drop mappings overlapping the change', () => {
+		expect(updateCodeMappings(
+			mappings,
+			{ span: { start: 12, length: 2 }, newLength: 0 },
+			{ span: { start: 22, length: 2 }, newLength: 0 },
+		)).toEqual([
+			{ sourceOffsets: [0], generatedOffsets: [10], lengths: [5], data: 'a' },
+			{ sourceOffsets: [18], generatedOffsets: [28], lengths: [5], data: 'c' },
+		]);
+	});
+
+	test('insertion at mapping boundaries', () => {
+		expect(updateCodeMappings(
+			mappings,
+			{ span: { start: 10, length: 0 }, newLength: 1 },
+			{ span: { start: 20, length: 0 }, newLength: 1 },
+		)).toEqual([
+			{ sourceOffsets: [0], generatedOffsets: [10], lengths: [5], data: 'a' },
+			{ sourceOffsets: [11], generatedOffsets: [21], lengths: [5], data: 'b' },
+			{ sourceOffsets: [21], generatedOffsets: [31], lengths: [5], data: 'c' },
+		]);
+	});
+
+	test('drop segments overlapping the change on generated side only', () => {
+		expect(updateCodeMappings(
+			[{ sourceOffsets: [0, 10], generatedOffsets: [0, 10], lengths: [5, 5], data: 'a' }],
+			{ span: { start: 20, length: 0 }, newLength: 1 },
+			{ span: { start: 12, length: 1 }, newLength: 1 },
+		)).toEqual([
+			{ sourceOffsets: [0], generatedOffsets: [0], lengths: [5], data: 'a' },
+		]);
+	});
+});
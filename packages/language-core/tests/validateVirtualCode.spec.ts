@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'vitest';
+import type * as ts from 'typescript';
+import type { CodeInformation, SourceFile, VirtualCode } from '../lib/types';
+import { validateVirtualCode } from '../lib/validateVirtualCode';
+
+const allFeatures: CodeInformation = {
+	verification: true,
+	completion: true,
+	semantic: true,
+	navigation: true,
+	structure: true,
+	format: true,
+};
+
+function createSnapshot(text: string): ts.IScriptSnapshot {
+	return {
+		getText: (start, end) => text.substring(start, end),
+		getLength: () => text.length,
+		getChangeRange: () => undefined,
+	};
+}
+
+function createSourceFile(text: string): SourceFile {
+	return { id: 'foo.html', languageId: 'html', snapshot: createSnapshot(text) };
+}
+
+describe('validateVirtualCode', () => {
+	test('valid virtual code', () => {
+		const virtualCode: VirtualCode = {
+			id: 'main',
+			languageId: 'html',
+			snapshot: createSnapshot('<div></div>'),
+			mappings: [{ sourceOffsets: [0], generatedOffsets: [0], lengths: [11], data: allFeatures }],
+			embeddedCodes: [],
+		};
+		expect(validateVirtualCode(createSourceFile('<div></div>'), virtualCode)).toEqual([]);
+	});
+
+	test('ranges out of snapshot', () => {
+		const virtualCode: VirtualCode = {
+			id: 'main',
+			languageId: 'html',
+			snapshot: createSnapshot('<div>'),
+			mappings: [{ sourceOffsets: [5], generatedOffsets: [0], lengths: [6], data: allFeatures }],
+			embeddedCodes: [],
+		};
+		expect(validateVirtualCode(createSourceFile('<div></div>'), virtualCode).map(problem => problem.type)).toEqual([
+			'generatedOutOfRange',
+		]);
+		expect(validateVirtualCode(createSourceFile('<div>'), virtualCode).map(problem => problem.type)).toEqual([
+			'sourceOutOfRange',
+			'generatedOutOfRange',
+		]);
+	});
+
+	test('unknown source and duplicate id', () => {
+		const virtualCode: VirtualCode = {
+			id: 'main',
+			languageId: 'html',
+			snapshot: createSnapshot('<div></div>'),
+			mappings: [],
+			embeddedCodes: [{
+				id: 'main',
+				languageId: 'css',
+				snapshot: createSnapshot('div {}'),
+				mappings: [{ source: 'bar.css', sourceOffsets: [0], generatedOffsets: [0], lengths: [6], data: allFeatures }],
+				embeddedCodes: [],
+			}],
+		};
+		expect(validateVirtualCode(createSourceFile('<div></div>'), virtualCode).map(problem => problem.type)).toEqual([
+			'duplicateId',
+			'unknownSource',
+		]);
+	});
+
+	test('conflicting data', () => {
+		const virtualCode: VirtualCode = {
+			id: 'main',
+			languageId: 'html',
+			snapshot: createSnapshot('<div></div>'),
+			mappings: [
+				{ sourceOffsets: [0], generatedOffsets: [0], lengths: [5], data: allFeatures },
+				{ sourceOffsets: [2], generatedOffsets: [2], lengths: [5], data: { ...allFeatures, format: false } },
+				{ sourceOffsets: [0], generatedOffsets: [2], lengths: [5], data: { ...allFeatures, format: false } },
+			],
+			embeddedCodes: [],
+		};
+		const problems = validateVirtualCode(createSourceFile('<div></div>'), virtualCode);
+		expect(problems.map(problem => [problem.type, problem.mapping])).toEqual([
+			['conflictingData', virtualCode.mappings[1]],
+		]);
+	});
+});
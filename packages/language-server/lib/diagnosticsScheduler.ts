@@ -0,0 +1,154 @@
+import type { SnapshotDocument } from '@volar/snapshot-document';
+import * as vscode from 'vscode-languageserver';
+
+export type DiagnosticsPass = 'syntactic' | 'semantic';
+
+export type DiagnosticsScheduler = ReturnType<typeof createDiagnosticsScheduler>;
+
+const minDelay = 50;
+const maxDelay = 1000;
+
+/**
+ * Check open documents one by one, the active and visible documents first and the syntactic pass before the semantic pass.
+ * A check is only cancelled if its document changed or closed, other queued checks are kept.
+ */
+export function createDiagnosticsScheduler(
+	documents: vscode.TextDocuments<SnapshotDocument>,
+	check: (uri: string, version: number, pass: DiagnosticsPass, token: vscode.CancellationToken) => Promise<void>,
+	console: vscode.RemoteConsole,
+) {
+
+	const queues: Record<DiagnosticsPass, Set<string>> = {
+		syntactic: new Set(),
+		semantic: new Set(),
+	};
+
+	let visibleUris = new Set<string>();
+	let activeUri: string | undefined;
+	let lastChangedUri: string | undefined;
+	let averageDuration: number | undefined;
+	let running: Promise<void> | undefined;
+
+	return {
+		/**
+		 * Queue both passes for the changed document and the semantic pass for other documents,
+		 * or both passes for all documents if no document is given.
+		 * Resolves when the queues are drained.
+		 */
+		schedule(uri?: string) {
+			for (const document of documents.all()) {
+				if (uri === undefined || document.uri === uri) {
+					queues.syntactic.add(document.uri);
+				}
+				queues.semantic.add(document.uri);
+			}
+			if (uri !== undefined) {
+				lastChangedUri = uri;
+			}
+			return run();
+		},
+		setVisibleDocuments(uris: string[], _activeUri: string | undefined) {
+			visibleUris = new Set(uris);
+			activeUri = _activeUri;
+		},
+	};
+
+	function run() {
+		running ??= drain().finally(() => {
+			running = undefined;
+		});
+		return running;
+	}
+
+	async function drain() {
+		while (true) {
+
+			await sleep(getDelay());
+
+			const next = pickNext();
+			if (!next) {
+				break;
+			}
+
+			const [uri, pass] = next;
+			const document = documents.get(uri);
+			queues[pass].delete(uri);
+
+			if (!document) {
+				continue;
+			}
+
+			const version = document.version;
+			const token: vscode.CancellationToken = {
+				get isCancellationRequested() {
+					return documents.get(uri)?.version !== version;
+				},
+				onCancellationRequested: vscode.Event.None,
+			};
+			const start = Date.now();
+
+			try {
+				await check(uri, version, pass, token);
+			}
+			catch (err) {
+				console.warn(`[volar] failed to check ${pass} diagnostics of ${uri}: ${err}`);
+				continue;
+			}
+
+			if (token.isCancellationRequested) {
+				if (documents.get(uri)) {
+					queues[pass].add(uri);
+				}
+			}
+			else {
+				const duration = Date.now() - start;
+				averageDuration = averageDuration === undefined
+					? duration
+					: averageDuration * 0.8 + duration * 0.2;
+			}
+		}
+	}
+
+	function pickNext(): [string, DiagnosticsPass] | undefined {
+
+		let next: [string, DiagnosticsPass] | undefined;
+		let nextPriority = Infinity;
+
+		for (const pass of ['syntactic', 'semantic'] as const) {
+			for (const uri of queues[pass]) {
+				if (!documents.get(uri)) {
+					queues[pass].delete(uri);
+					continue;
+				}
+				const priority = getPriority(uri) * 2 + (pass === 'semantic' ? 1 : 0);
+				if (priority < nextPriority) {
+					next = [uri, pass];
+					nextPriority = priority;
+				}
+			}
+		}
+
+		return next;
+	}
+
+	function getPriority(uri: string) {
+		if (uri === activeUri || (activeUri === undefined && uri === lastChangedUri)) {
+			return 0;
+		}
+		if (visibleUris.has(uri)) {
+			return 1;
+		}
+		return 2;
+	}
+
+	/**
+	 * Wait about as long as a check takes, so checks use at most half of the server time while typing.
+	 */
+	function getDelay() {
+		return Math.min(Math.max(averageDuration ?? 0, minDelay), maxDelay);
+	}
+}
+
+function sleep(ms: number) {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,213 @@
+import { CodeInformation, CodeMapping, SourceMap } from '@volar/language-service';
+import type { SnapshotDocument } from '@volar/snapshot-document';
+import * as vscode from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+type TextDocumentConnection = Parameters<vscode.TextDocuments<SnapshotDocument>['listen']>[0];
+
+interface CombinedNotebook {
+	document: TextDocument;
+	cells: {
+		uri: string;
+		map: SourceMap<CodeInformation>;
+	}[];
+}
+
+export type NotebookDocuments = ReturnType<typeof createNotebookDocuments>;
+
+const cellSeparator = '\n';
+const cellCodeInformation: CodeInformation = {
+	verification: true,
+	completion: true,
+	semantic: true,
+	navigation: true,
+	structure: true,
+	format: false,
+};
+
+/**
+ * Combine the cells of each notebook into one document with the notebook uri,
+ * which is synced to `TextDocuments` like any other opened document.
+ */
+export function createNotebookDocuments(configuration: vscode.TextDocumentsConfiguration<SnapshotDocument>) {
+
+	const notebooks = new vscode.NotebookDocuments(configuration);
+	const combinedNotebooks = new Map<string, CombinedNotebook>();
+	const cellToNotebook = new Map<string, string>();
+	const onDidOpenHandlers = new Set<vscode.NotificationHandler<vscode.DidOpenTextDocumentParams>>();
+	const onDidChangeHandlers = new Set<vscode.NotificationHandler<vscode.DidChangeTextDocumentParams>>();
+	const onDidCloseHandlers = new Set<vscode.NotificationHandler<vscode.DidCloseTextDocumentParams>>();
+
+	notebooks.onDidOpen(notebook => {
+		const combined = combine(notebook, 0);
+		for (const handler of onDidOpenHandlers) {
+			handler({
+				textDocument: {
+					uri: notebook.uri,
+					languageId: combined.document.languageId,
+					version: combined.document.version,
+					text: combined.document.getText(),
+				},
+			});
+		}
+	});
+	notebooks.onDidChange(({ notebookDocument }) => {
+		const oldCombined = combinedNotebooks.get(notebookDocument.uri);
+		const combined = combine(notebookDocument, (oldCombined?.document.version ?? 0) + 1);
+		for (const handler of onDidChangeHandlers) {
+			handler({
+				textDocument: {
+					uri: notebookDocument.uri,
+					version: combined.document.version,
+				},
+				contentChanges: [{ text: combined.document.getText() }],
+			});
+		}
+	});
+	notebooks.onDidClose(notebook => {
+		for (const handler of onDidCloseHandlers) {
+			handler({ textDocument: { uri: notebook.uri } });
+		}
+		for (const cell of combinedNotebooks.get(notebook.uri)?.cells ?? []) {
+			cellToNotebook.delete(cell.uri);
+		}
+		combinedNotebooks.delete(notebook.uri);
+	});
+
+	return {
+		notebooks,
+		/**
+		 * Listen to notebook sync, returns a connection that emits the text document events of `connection`
+		 * and the events of combined notebook documents.
+		 */
+		listen(connection: vscode.Connection): TextDocumentConnection {
+			notebooks.listen(connection);
+			return {
+				onDidOpenTextDocument: handler => addHandler(onDidOpenHandlers, handler, connection.onDidOpenTextDocument(handler)),
+				onDidChangeTextDocument: handler => addHandler(onDidChangeHandlers, handler, connection.onDidChangeTextDocument(handler)),
+				onDidCloseTextDocument: handler => addHandler(onDidCloseHandlers, handler, connection.onDidCloseTextDocument(handler)),
+				onWillSaveTextDocument: handler => connection.onWillSaveTextDocument(handler),
+				onWillSaveTextDocumentWaitUntil: handler => connection.onWillSaveTextDocumentWaitUntil(handler),
+				onDidSaveTextDocument: handler => connection.onDidSaveTextDocument(handler),
+			};
+		},
+		getCellDocument(cellUri: string) {
+			return notebooks.cellTextDocuments.get(cellUri);
+		},
+		getNotebookUri(cellUri: string) {
+			return cellToNotebook.get(cellUri);
+		},
+		getCellUris(notebookUri: string) {
+			return combinedNotebooks.get(notebookUri)?.cells.map(cell => cell.uri);
+		},
+		/**
+		 * Map a position of a cell to the combined notebook document.
+		 */
+		toNotebookPosition(cellUri: string, position: vscode.Position) {
+			const notebookUri = cellToNotebook.get(cellUri);
+			const combined = notebookUri ? combinedNotebooks.get(notebookUri) : undefined;
+			const cell = combined?.cells.find(cell => cell.uri === cellUri);
+			const cellDocument = notebooks.cellTextDocuments.get(cellUri);
+			if (!notebookUri || !combined || !cell || !cellDocument) {
+				return;
+			}
+			const offset = cell.map.getGeneratedOffset(cellDocument.offsetAt(position))?.[0];
+			if (offset !== undefined) {
+				return {
+					uri: notebookUri,
+					position: combined.document.positionAt(offset),
+				};
+			}
+		},
+		/**
+		 * Map a range of the combined notebook document back to the cell it belongs to.
+		 * A range that spans multiple cells has no cell range, unless `clip` is set to clip it to the end of the cell it starts in.
+		 */
+		toCellRange(notebookUri: string, range: vscode.Range, clip = false) {
+			const combined = combinedNotebooks.get(notebookUri);
+			if (!combined) {
+				return;
+			}
+			const start = combined.document.offsetAt(range.start);
+			const end = combined.document.offsetAt(range.end);
+			for (const cell of combined.cells) {
+				const cellDocument = notebooks.cellTextDocuments.get(cell.uri);
+				if (!cellDocument) {
+					continue;
+				}
+				const cellStart = cell.map.getSourceOffset(start)?.[0];
+				if (cellStart === undefined) {
+					continue;
+				}
+				const cellEnd = cell.map.getSourceOffset(end)?.[0] ?? (clip ? cellDocument.getText().length : undefined);
+				if (cellEnd === undefined) {
+					return;
+				}
+				return {
+					uri: cell.uri,
+					range: {
+						start: cellDocument.positionAt(cellStart),
+						end: cellDocument.positionAt(cellEnd),
+					},
+				};
+			}
+		},
+	};
+
+	function combine(notebook: vscode.NotebookDocument, version: number) {
+
+		const cellDocuments = notebook.cells
+			.map(cell => notebooks.cellTextDocuments.get(cell.document))
+			.filter((document): document is SnapshotDocument => !!document);
+		// the language of the first code cell, cells in other languages such as markdown are not combined
+		const firstCodeCell = notebook.cells.find(cell => cell.kind === vscode.NotebookCellKind.Code);
+		const languageId = (firstCodeCell && notebooks.cellTextDocuments.get(firstCodeCell.document)?.languageId) ?? 'plaintext';
+		const mappings: CodeMapping[] = [];
+
+		let text = '';
+
+		for (const cellDocument of cellDocuments) {
+			if (cellDocument.languageId !== languageId) {
+				continue;
+			}
+			const cellText = cellDocument.getText();
+			mappings.push({
+				source: cellDocument.uri,
+				sourceOffsets: [0],
+				generatedOffsets: [text.length],
+				lengths: [cellText.length],
+				data: cellCodeInformation,
+			});
+			text += cellText + cellSeparator;
+		}
+
+		for (const cell of combinedNotebooks.get(notebook.uri)?.cells ?? []) {
+			cellToNotebook.delete(cell.uri);
+		}
+
+		const combined: CombinedNotebook = {
+			document: TextDocument.create(notebook.uri, languageId, version, text),
+			cells: mappings.map(mapping => ({
+				uri: mapping.source!,
+				map: new SourceMap([mapping]),
+			})),
+		};
+		combinedNotebooks.set(notebook.uri, combined);
+
+		for (const cell of combined.cells) {
+			cellToNotebook.set(cell.uri, notebook.uri);
+		}
+
+		return combined;
+	}
+}
+
+function addHandler<T>(handlers: Set<T>, handler: T, disposable: vscode.Disposable): vscode.Disposable {
+	handlers.add(handler);
+	return {
+		dispose() {
+			handlers.delete(handler);
+			disposable.dispose();
+		},
+	};
+}
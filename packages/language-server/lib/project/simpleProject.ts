@@ -1,4 +1,4 @@
-import { LanguageService, ServiceEnvironment, ServicePlugin, createFileRegistry, createLanguageService } from '@volar/language-service';
+import { LanguagePlugin, LanguageService, ServiceEnvironment, ServicePlugin, createFileRegistry, createLanguageService, traceLanguagePlugins } from '@volar/language-service';
 import type { ServerContext, ServerOptions } from '../server';
 import type { ServerProject } from '../types';
 
@@ -11,7 +11,20 @@ export async function createSimpleServerProject(
 
 	let languageService: LanguageService | undefined;
 
-	const languagePlugins = await serverOptions.getLanguagePlugins(serviceEnv, {});
+	const status = context.status.createProjectStatus(serviceEnv.workspaceFolder);
+
+	status.report('Loading language plugins');
+
+	let languagePlugins: LanguagePlugin[];
+	try {
+		languagePlugins = await serverOptions.getLanguagePlugins(serviceEnv, {});
+	}
+	catch (err) {
+		status.fail(err);
+		throw err;
+	}
+
+	status.done();
 
 	return {
 		serviceEnv,
@@ -19,12 +32,13 @@ export async function createSimpleServerProject(
 		getLanguageServiceDontCreate: () => languageService,
 		dispose() {
 			languageService?.dispose();
+			status.dispose();
 		},
 	};
 
 	function getLanguageService() {
 		if (!languageService) {
-			const files = createFileRegistry(languagePlugins, false, uri => {
+			const files = createFileRegistry(serviceEnv.tracer ? traceLanguagePlugins(serviceEnv.tracer, languagePlugins) : languagePlugins, false, uri => {
 				const script = context.documents.get(uri);
 				if (script) {
 					files.set(uri, script.languageId, script.getSnapshot());
@@ -1,5 +1,6 @@
-import type { ServiceEnvironment } from '@volar/language-service';
+import { transformWorkspaceEdit, type ServiceEnvironment } from '@volar/language-service';
 import { URI } from 'vscode-uri';
+import { ServicePluginQuarantineNotification } from '../../protocol';
 import type { ServerProject, ServerProjectProvider, ServerProjectProviderFactory } from '../types';
 import { isFileInDir } from '../utils/isFileInDir';
 import type { WorkspaceFolderManager } from '../workspaceFolderManager';
@@ -17,7 +18,7 @@ export const createSimpleProjectProvider: ServerProjectProviderFactory = (contex
 
 			let projectPromise = projects.get(workspaceFolder);
 			if (!projectPromise) {
-				const serviceEnv = createServiceEnvironment(context, workspaceFolder);
+				const serviceEnv = createServiceEnvironment(context, workspaceFolder, () => projectPromise);
 				projectPromise = createSimpleServerProject(context, serviceEnv, serverOptions, servicePlugins);
 				projects.set(workspaceFolder, projectPromise);
 			}
@@ -40,7 +41,10 @@ export const createSimpleProjectProvider: ServerProjectProviderFactory = (contex
 	};
 };
 
-export function createServiceEnvironment(context: ServerContext, workspaceFolder: URI) {
+/**
+ * @param getProject The project of the environment, edits applied by its service plugins are mapped to the source documents.
+ */
+export function createServiceEnvironment(context: ServerContext, workspaceFolder: URI, getProject: () => Promise<ServerProject> | undefined) {
 	const env: ServiceEnvironment = {
 		workspaceFolder: workspaceFolder.toString(),
 		fs: context.runtimeEnv.fs,
@@ -50,6 +54,18 @@ export function createServiceEnvironment(context: ServerContext, workspaceFolder
 		getConfiguration: context.configurationHost?.getConfiguration,
 		onDidChangeConfiguration: context.configurationHost?.onDidChangeConfiguration,
 		onDidChangeWatchedFiles: context.onDidChangeWatchedFiles,
+		applyWorkspaceEdit: async edit => {
+			const languageService = (await getProject())?.getLanguageServiceDontCreate();
+			const sourceEdit = languageService ? transformWorkspaceEdit(edit, languageService.context, undefined) : edit;
+			if (!sourceEdit) {
+				return false;
+			}
+			return (await context.connection.workspace.applyEdit(sourceEdit)).applied;
+		},
+		tracer: context.tracer,
+		timeBudgets: context.initializeParams.initializationOptions?.timeBudgets,
+		diagnosticSuppression: context.initializeParams.initializationOptions?.diagnosticSuppression,
+		onDidChangeServicePluginQuarantine: event => context.connection.sendNotification(ServicePluginQuarantineNotification.type, event),
 		typescript: {
 			fileNameToUri: context.runtimeEnv.fileNameToUri,
 			uriToFileName: context.runtimeEnv.uriToFileName,
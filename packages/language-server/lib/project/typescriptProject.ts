@@ -1,4 +1,4 @@
-import { LanguagePlugin, LanguageService, ServiceEnvironment, ServicePlugin, TypeScriptProjectHost, createLanguageService, resolveCommonLanguageId } from '@volar/language-service';
+import { LanguagePlugin, LanguageService, ServiceEnvironment, ServicePlugin, TypeScriptProjectHost, createLanguageService, resolveCommonLanguageId, traceLanguagePlugins } from '@volar/language-service';
 import { createLanguage, createSys } from '@volar/typescript';
 import * as path from 'path-browserify';
 import type * as ts from 'typescript';
@@ -6,6 +6,7 @@ import * as vscode from 'vscode-languageserver';
 import type { ServerProject } from '../types';
 import { UriMap, createUriMap } from '../utils/uriMap';
 import type { ServerContext, ServerOptions } from '../server';
+import type { ProjectStatus } from '../serverStatus';
 
 export interface TypeScriptServerProject extends ServerProject {
 	askedFiles: UriMap<boolean>;
@@ -26,6 +27,8 @@ export async function createTypeScriptServerProject(
 	}
 
 	let parsedCommandLine: ts.ParsedCommandLine;
+	// error of the last tsconfig parse, kept as the project status after the program is built
+	let parseError: unknown;
 	let projectVersion = 0;
 	let languageService: LanguageService | undefined;
 
@@ -55,6 +58,7 @@ export async function createTypeScriptServerProject(
 			sys,
 		},
 	});
+	const status = context.status.createProjectStatus(typeof tsconfig === 'string' ? tsconfig : `${uriToFileName(serviceEnv.workspaceFolder)} (inferred)`);
 	const askedFiles = createUriMap<boolean>(fileNameToUri);
 	const docChangeWatcher = context.documents.onDidChangeContent(() => {
 		projectVersion++;
@@ -63,7 +67,14 @@ export async function createTypeScriptServerProject(
 		onWorkspaceFilesChanged(params.changes);
 	});
 
-	let rootFiles = await getRootFiles(languagePlugins);
+	let rootFiles: string[];
+	try {
+		rootFiles = await getRootFiles(languagePlugins, status);
+	}
+	catch (err) {
+		status.fail(err);
+		throw err;
+	}
 
 	return {
 		askedFiles,
@@ -80,14 +91,27 @@ export async function createTypeScriptServerProject(
 		getParsedCommandLine: () => parsedCommandLine,
 	};
 
-	async function getRootFiles(languagePlugins: LanguagePlugin[]) {
-		parsedCommandLine = await createParsedCommandLine(
+	async function getRootFiles(languagePlugins: LanguagePlugin[], status?: ProjectStatus) {
+		const [content, error] = await createParsedCommandLine(
 			ts,
 			sys,
 			uriToFileName(serviceEnv.workspaceFolder),
 			tsconfig,
 			languagePlugins.map(plugin => plugin.typescript?.extraFileExtensions ?? []).flat(),
+			status?.report,
 		);
+		parsedCommandLine = content;
+		// "No inputs were found" is expected for solution-style tsconfigs and empty folders
+		const configErrors = content.errors.filter(error => error.code !== 18003);
+		parseError = error ?? (configErrors.length
+			? configErrors.map(error => ts.flattenDiagnosticMessageText(error.messageText, '\n')).join('\n')
+			: undefined);
+		if (parseError !== undefined) {
+			status?.fail(parseError);
+		}
+		else {
+			status?.done(parsedCommandLine.fileNames.length);
+		}
 		return parsedCommandLine.fileNames;
 	}
 	function getLanguageService() {
@@ -95,7 +119,7 @@ export async function createTypeScriptServerProject(
 			const language = createLanguage(
 				ts,
 				sys,
-				languagePlugins,
+				serviceEnv.tracer ? traceLanguagePlugins(serviceEnv.tracer, languagePlugins) : languagePlugins,
 				typeof tsconfig === 'string' ? tsconfig : undefined,
 				host,
 				{
@@ -108,13 +132,32 @@ export async function createTypeScriptServerProject(
 				servicePlugins,
 				serviceEnv,
 			);
+			buildProgram(languageService);
 		}
 		return languageService;
 	}
+	async function buildProgram(languageService: LanguageService) {
+		// let the progress be sent before blocking on the build
+		await status.report('Building program');
+		try {
+			const tsLanguageService = languageService.context.inject<{ 'typescript/languageService': () => ts.LanguageService; }>('typescript/languageService');
+			tsLanguageService?.getProgram();
+			if (parseError !== undefined) {
+				status.fail(parseError);
+			}
+			else {
+				status.done(rootFiles.length);
+			}
+		}
+		catch (err) {
+			status.fail(err);
+		}
+	}
 	async function onWorkspaceFilesChanged(changes: vscode.FileEvent[]) {
 
 		const creates = changes.filter(change => change.type === vscode.FileChangeType.Created);
 
+		// not reported as progress, as it runs for every created file
 		if (creates.length) {
 			rootFiles = await getRootFiles(languagePlugins);
 		}
@@ -126,6 +169,7 @@ export async function createTypeScriptServerProject(
 		languageService?.dispose();
 		fileWatch?.dispose();
 		docChangeWatcher.dispose();
+		status.dispose();
 	}
 }
 
@@ -135,22 +179,27 @@ async function createParsedCommandLine(
 	workspacePath: string,
 	tsconfig: string | ts.CompilerOptions,
 	extraFileExtensions: ts.FileExtensionInfo[],
-): Promise<ts.ParsedCommandLine> {
+	report?: (message: string) => Promise<void>,
+): Promise<[ts.ParsedCommandLine, error: unknown]> {
 	let content: ts.ParsedCommandLine = {
 		errors: [],
 		fileNames: [],
 		options: {},
 	};
+	let error: unknown;
 	let sysVersion: number | undefined;
 	let newSysVersion = await sys.sync();
 	while (sysVersion !== newSysVersion) {
 		sysVersion = newSysVersion;
 		try {
 			if (typeof tsconfig === 'string') {
+				await report?.(`Parsing ${path.basename(tsconfig)}`);
 				const config = ts.readJsonConfigFile(tsconfig, sys.readFile);
+				await report?.('Enumerating files');
 				content = ts.parseJsonSourceFileConfigFileContent(config, sys, path.dirname(tsconfig), {}, tsconfig, undefined, extraFileExtensions);
 			}
 			else {
+				await report?.('Enumerating files');
 				content = ts.parseJsonConfigFileContent({ files: [] }, sys, workspacePath, tsconfig, workspacePath + '/jsconfig.json', undefined, extraFileExtensions);
 			}
 			// fix https://github.com/johnsoncodehk/volar/issues/1786
@@ -158,14 +207,13 @@ async function createParsedCommandLine(
 			// patching ts server broke with outDir + rootDir + composite/incremental
 			content.options.outDir = undefined;
 			content.fileNames = content.fileNames.map(fileName => fileName.replace(/\\/g, '/'));
+			error = undefined;
 		}
-		catch {
-			// will be failed if web fs host first result not ready
+		catch (err) {
+			// will be failed if web fs host first result not ready, only the error of the last try is reported
+			error = err;
 		}
 		newSysVersion = await sys.sync();
 	}
-	if (content) {
-		return content;
-	}
-	return content;
+	return [content, error];
 }
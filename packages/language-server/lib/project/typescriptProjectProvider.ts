@@ -19,13 +19,28 @@ export const createTypeScriptProjectProvider: ServerProjectProviderFactory = (co
 	const inferredProjects = createUriMap<Promise<TypeScriptServerProject>>(fileNameToUri);
 	const rootTsConfigs = new Set<string>();
 	const searchedDirs = new Set<string>();
+	// in least recently used order
+	const projectUsages = new Map<Promise<TypeScriptServerProject>, {
+		name: string;
+		lastUsed: number;
+		delete(): void;
+	}>();
+
+	let evicting = false;
+	let idleTimer: ReturnType<typeof setTimeout> | undefined;
 
 	context.onDidChangeWatchedFiles(({ changes }) => {
-		const tsConfigChanges = changes.filter(change => rootTsConfigNames.includes(change.uri.substring(change.uri.lastIndexOf('/') + 1)));
+		const tsConfigChanges = changes.filter(change =>
+			rootTsConfigNames.includes(change.uri.substring(change.uri.lastIndexOf('/') + 1))
+			// referenced configs, e.g. tsconfig.app.json of a solution-style tsconfig
+			|| configProjects.uriHas(change.uri)
+		);
 
 		for (const change of tsConfigChanges) {
 			if (change.type === vscode.FileChangeType.Created) {
-				rootTsConfigs.add(uriToFileName(change.uri));
+				if (rootTsConfigNames.includes(change.uri.substring(change.uri.lastIndexOf('/') + 1))) {
+					rootTsConfigs.add(uriToFileName(change.uri));
+				}
 			}
 			else if ((change.type === vscode.FileChangeType.Changed || change.type === vscode.FileChangeType.Deleted) && configProjects.uriHas(change.uri)) {
 				if (change.type === vscode.FileChangeType.Deleted) {
@@ -33,7 +48,10 @@ export const createTypeScriptProjectProvider: ServerProjectProviderFactory = (co
 				}
 				const project = configProjects.uriGet(change.uri);
 				configProjects.uriDelete(change.uri);
-				project?.then(project => project.dispose());
+				if (project) {
+					projectUsages.delete(project);
+					project.then(project => project.dispose());
+				}
 			}
 		}
 
@@ -47,24 +65,30 @@ export const createTypeScriptProjectProvider: ServerProjectProviderFactory = (co
 
 	context.workspaceFolders.onDidRemove(folder => {
 		for (const uri of configProjects.uriKeys()) {
-			const project = configProjects.uriGet(uri)!;
-			project.then(project => {
+			const projectPromise = configProjects.uriGet(uri)!;
+			projectPromise.then(project => {
 				if (project.serviceEnv.workspaceFolder === folder.toString()) {
 					configProjects.uriDelete(uri);
+					projectUsages.delete(projectPromise);
 					project.dispose();
 				}
 			});
 		}
 	});
 
+	context.documents.onDidClose(() => {
+		evictProjects();
+	});
+
 	return {
 		async getProject(uri) {
 			const tsconfig = await findMatchTSConfig(URI.parse(uri));
-			if (tsconfig) {
-				return await getOrCreateConfiguredProject(tsconfig);
-			}
-			const workspaceFolder = getWorkspaceFolder(uri, context.workspaceFolders, uriToFileName);
-			return await getOrCreateInferredProject(uri, workspaceFolder);
+			const projectPromise = tsconfig
+				? getOrCreateConfiguredProject(tsconfig)
+				: getOrCreateInferredProject(uri, getWorkspaceFolder(uri, context.workspaceFolders, uriToFileName));
+			markProjectUsed(projectPromise);
+			evictProjects(projectPromise);
+			return await projectPromise;
 		},
 		async getProjects() {
 			return await Promise.all([
@@ -80,6 +104,12 @@ export const createTypeScriptProjectProvider: ServerProjectProviderFactory = (co
 
 			configProjects.clear();
 			inferredProjects.clear();
+			projectUsages.clear();
+
+			if (idleTimer) {
+				clearTimeout(idleTimer);
+				idleTimer = undefined;
+			}
 
 			context.reloadDiagnostics();
 		},
@@ -179,19 +209,7 @@ export const createTypeScriptProjectProvider: ServerProjectProviderFactory = (co
 
 				for (const projectReference of parsedCommandLine.projectReferences) {
 
-					let tsConfigPath = projectReference.path.replace(/\\/g, '/');
-
-					// fix https://github.com/johnsoncodehk/volar/issues/712
-					if ((await fs.stat?.(fileNameToUri(tsConfigPath)))?.type === FileType.File) {
-						const newTsConfigPath = path.join(tsConfigPath, 'tsconfig.json');
-						const newJsConfigPath = path.join(tsConfigPath, 'jsconfig.json');
-						if ((await fs.stat?.(fileNameToUri(newTsConfigPath)))?.type === FileType.File) {
-							tsConfigPath = newTsConfigPath;
-						}
-						else if ((await fs.stat?.(fileNameToUri(newJsConfigPath)))?.type === FileType.File) {
-							tsConfigPath = newJsConfigPath;
-						}
-					}
+					const tsConfigPath = await resolveProjectReferencePath(projectReference.path.replace(/\\/g, '/'));
 
 					const beforeIndex = before.indexOf(tsConfigPath); // cycle
 					if (beforeIndex >= 0) {
@@ -213,6 +231,21 @@ export const createTypeScriptProjectProvider: ServerProjectProviderFactory = (co
 				return [[...before, tsConfig]];
 			}
 		}
+		async function resolveProjectReferencePath(referencePath: string) {
+			// fix https://github.com/johnsoncodehk/volar/issues/712
+			// a reference to a directory means the tsconfig.json in it, same as TS
+			if ((await fs.stat?.(fileNameToUri(referencePath)))?.type === FileType.Directory) {
+				const tsConfigPath = path.join(referencePath, 'tsconfig.json');
+				const jsConfigPath = path.join(referencePath, 'jsconfig.json');
+				if ((await fs.stat?.(fileNameToUri(tsConfigPath)))?.type === FileType.File) {
+					return tsConfigPath;
+				}
+				else if ((await fs.stat?.(fileNameToUri(jsConfigPath)))?.type === FileType.File) {
+					return jsConfigPath;
+				}
+			}
+			return referencePath;
+		}
 		async function getParsedCommandLine(tsConfig: string) {
 			const project = await getOrCreateConfiguredProject(tsConfig);
 			return project?.getParsedCommandLine();
@@ -224,9 +257,10 @@ export const createTypeScriptProjectProvider: ServerProjectProviderFactory = (co
 		let projectPromise = configProjects.pathGet(tsconfig);
 		if (!projectPromise) {
 			const workspaceFolder = getWorkspaceFolder(fileNameToUri(tsconfig), context.workspaceFolders, uriToFileName);
-			const serviceEnv = createServiceEnvironment(context, workspaceFolder);
+			const serviceEnv = createServiceEnvironment(context, workspaceFolder, () => projectPromise);
 			projectPromise = createTypeScriptServerProject(tsconfig, context, serviceEnv, serverOptions, servicePlugins);
 			configProjects.pathSet(tsconfig, projectPromise);
+			addProjectUsage(projectPromise, tsconfig, () => configProjects.pathDelete(tsconfig));
 		}
 		return projectPromise;
 	}
@@ -234,11 +268,13 @@ export const createTypeScriptProjectProvider: ServerProjectProviderFactory = (co
 	async function getOrCreateInferredProject(uri: string, workspaceFolder: URI) {
 
 		if (!inferredProjects.uriHas(workspaceFolder.toString())) {
-			inferredProjects.uriSet(workspaceFolder.toString(), (async () => {
+			const projectPromise: Promise<TypeScriptServerProject> = (async () => {
 				const inferOptions = await getInferredCompilerOptions(context.configurationHost);
-				const serviceEnv = createServiceEnvironment(context, workspaceFolder);
+				const serviceEnv = createServiceEnvironment(context, workspaceFolder, () => projectPromise);
 				return createTypeScriptServerProject(inferOptions, context, serviceEnv, serverOptions, servicePlugins);
-			})());
+			})();
+			inferredProjects.uriSet(workspaceFolder.toString(), projectPromise);
+			addProjectUsage(projectPromise, workspaceFolder.toString() + ' (inferred)', () => inferredProjects.uriDelete(workspaceFolder.toString()));
 		}
 
 		const project = await inferredProjects.uriGet(workspaceFolder.toString())!;
@@ -247,6 +283,103 @@ export const createTypeScriptProjectProvider: ServerProjectProviderFactory = (co
 
 		return project;
 	}
+
+	function addProjectUsage(projectPromise: Promise<TypeScriptServerProject>, name: string, _delete: () => void) {
+		projectUsages.set(projectPromise, {
+			name,
+			lastUsed: Date.now(),
+			delete: _delete,
+		});
+	}
+
+	function markProjectUsed(projectPromise: Promise<TypeScriptServerProject>) {
+		const usage = projectUsages.get(projectPromise);
+		if (usage) {
+			projectUsages.delete(projectPromise);
+			projectUsages.set(projectPromise, {
+				...usage,
+				lastUsed: Date.now(),
+			});
+		}
+	}
+
+	/**
+	 * @param exclude The project being returned to the caller, which is never disposed.
+	 */
+	async function evictProjects(exclude?: Promise<TypeScriptServerProject>) {
+
+		const { maxProjects, projectIdleTimeout } = context.initializeParams.initializationOptions ?? {};
+		if ((maxProjects === undefined && projectIdleTimeout === undefined) || evicting) {
+			return;
+		}
+		evicting = true;
+
+		try {
+			const openedUris = [...context.documents.all()].map(document => document.uri);
+			const now = Date.now();
+
+			let projectsCount = projectUsages.size;
+
+			for (const [projectPromise, usage] of [...projectUsages]) {
+
+				if (projectPromise === exclude) {
+					continue;
+				}
+
+				let project: TypeScriptServerProject;
+				try {
+					project = await projectPromise;
+				}
+				catch {
+					continue;
+				}
+
+				if (openedUris.some(uri => project.askedFiles.uriHas(uri))) {
+					continue;
+				}
+
+				// solution-style tsconfig, which holds no files but is needed to find the referenced projects
+				const parsedCommandLine = project.getParsedCommandLine();
+				if (!parsedCommandLine.fileNames.length && parsedCommandLine.projectReferences?.length) {
+					continue;
+				}
+
+				const isIdle = projectIdleTimeout !== undefined && now - usage.lastUsed >= projectIdleTimeout * 60 * 1000;
+				const isOverflow = maxProjects !== undefined && projectsCount > maxProjects;
+				if (!isIdle && !isOverflow) {
+					continue;
+				}
+
+				// may be used or deleted while waiting
+				if (projectUsages.get(projectPromise) !== usage) {
+					continue;
+				}
+
+				usage.delete();
+				projectUsages.delete(projectPromise);
+				project.dispose();
+				projectsCount--;
+
+				context.runtimeEnv.console.log(`[volar] disposed project ${usage.name}: ${isIdle ? 'idle for ' + projectIdleTimeout + ' minutes' : 'over maxProjects (' + maxProjects + ')'}`);
+			}
+		}
+		finally {
+			evicting = false;
+		}
+
+		// check again later, as idle projects are not disposed until the next eviction
+		if (projectIdleTimeout !== undefined) {
+			if (idleTimer) {
+				clearTimeout(idleTimer);
+			}
+			idleTimer = projectUsages.size
+				? setTimeout(() => {
+					idleTimer = undefined;
+					evictProjects();
+				}, projectIdleTimeout * 60 * 1000)
+				: undefined;
+		}
+	}
 };
 
 export function sortTSConfigs(file: string, a: string, b: string) {
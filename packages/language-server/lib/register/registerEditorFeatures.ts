@@ -6,54 +6,43 @@ import {
 	GetVirtualCodeRequest,
 	GetVirtualFileRequest,
 	LoadedTSFilesMetaRequest,
+	PerformanceTraceRequest,
 	ReloadProjectNotification,
 	WriteVirtualFilesNotification,
 	DocumentDropRequest,
 	DocumentDrop_DataTransferItemAsStringRequest,
 	DocumentDrop_DataTransferItemFileDataRequest,
+	DocumentPasteRequest,
+	DocumentPaste_DataTransferItemAsStringRequest,
+	DocumentPaste_DataTransferItemFileDataRequest,
 	UpdateVirtualCodeStateNotification,
 	UpdateServicePluginStateNotification,
+	ReleaseServicePluginRequest,
 	GetServicePluginsRequest,
 } from '../../protocol';
 import type { ServerProjectProvider, ServerRuntimeEnvironment } from '../types';
-import type { DataTransferItem } from '@volar/language-service';
+import { toChromeTrace, type DataTransferItem, type PerformanceTracer } from '@volar/language-service';
 
 export function registerEditorFeatures(
 	connection: vscode.Connection,
 	projects: ServerProjectProvider,
 	env: ServerRuntimeEnvironment,
+	tracer: PerformanceTracer | undefined,
 ) {
 
 	const scriptVersions = new Map<string, number>();
 	const scriptVersionSnapshots = new WeakSet<ts.IScriptSnapshot>();
 
 	connection.onRequest(DocumentDropRequest.type, async ({ textDocument, position, dataTransfer }, token) => {
-
-		const dataTransferMap = new Map<string, DataTransferItem>();
-
-		for (const item of dataTransfer) {
-			dataTransferMap.set(item.mimeType, {
-				value: item.value,
-				asString() {
-					return connection.sendRequest(DocumentDrop_DataTransferItemAsStringRequest.type, { mimeType: item.mimeType });
-				},
-				asFile() {
-					if (item.file) {
-						return {
-							name: item.file.name,
-							uri: item.file.uri,
-							data() {
-								return connection.sendRequest(DocumentDrop_DataTransferItemFileDataRequest.type, { mimeType: item.mimeType });
-							},
-						};
-					}
-				},
-			});
-		}
-
+		const dataTransferMap = createDataTransferMap(dataTransfer, DocumentDrop_DataTransferItemAsStringRequest.type, DocumentDrop_DataTransferItemFileDataRequest.type);
 		const languageService = (await projects.getProject(textDocument.uri)).getLanguageService();
 		return languageService.doDocumentDrop(textDocument.uri, position, dataTransferMap, token);
 	});
+	connection.onRequest(DocumentPasteRequest.type, async ({ textDocument, ranges, dataTransfer }, token) => {
+		const dataTransferMap = createDataTransferMap(dataTransfer, DocumentPaste_DataTransferItemAsStringRequest.type, DocumentPaste_DataTransferItemFileDataRequest.type);
+		const languageService = (await projects.getProject(textDocument.uri)).getLanguageService();
+		return languageService.doDocumentPaste(textDocument.uri, ranges, dataTransferMap, token);
+	});
 	connection.onRequest(GetMatchTsConfigRequest.type, async params => {
 		const languageService = (await projects.getProject(params.uri)).getLanguageService();
 		const configFileName = languageService.context.language.typescript?.configFileName;
@@ -143,6 +132,11 @@ export function registerEditorFeatures(
 			}
 		}
 	});
+	connection.onRequest(PerformanceTraceRequest.type, () => {
+		if (tracer) {
+			return toChromeTrace(tracer.flush());
+		}
+	});
 	connection.onRequest(LoadedTSFilesMetaRequest.type, async () => {
 
 		const sourceFilesData = new Map<ts.SourceFile, {
@@ -232,6 +226,15 @@ export function registerEditorFeatures(
 			}
 		}
 	});
+	connection.onRequest(ReleaseServicePluginRequest.type, async params => {
+		const project = await projects.getProject(params.uri);
+		const context = project.getLanguageServiceDontCreate()?.context;
+		const service = context?.services[params.serviceId as any];
+		if (context && service) {
+			return context.quarantine.release(service[1]);
+		}
+		return false;
+	});
 	connection.onRequest(GetServicePluginsRequest.type, async params => {
 		const project = await projects.getProject(params.uri);
 		const context = project.getLanguageServiceDontCreate()?.context;
@@ -249,4 +252,35 @@ export function registerEditorFeatures(
 			return result;
 		}
 	});
+
+	function createDataTransferMap(
+		dataTransfer: DocumentDropRequest.ParamsType['dataTransfer'],
+		asStringRequestType: typeof DocumentDrop_DataTransferItemAsStringRequest.type,
+		fileDataRequestType: typeof DocumentDrop_DataTransferItemFileDataRequest.type,
+	) {
+
+		const dataTransferMap = new Map<string, DataTransferItem>();
+
+		for (const item of dataTransfer) {
+			dataTransferMap.set(item.mimeType, {
+				value: item.value,
+				asString() {
+					return connection.sendRequest(asStringRequestType, { mimeType: item.mimeType });
+				},
+				asFile() {
+					if (item.file) {
+						return {
+							name: item.file.name,
+							uri: item.file.uri,
+							data() {
+								return connection.sendRequest(fileDataRequestType, { mimeType: item.mimeType });
+							},
+						};
+					}
+				},
+			});
+		}
+
+		return dataTransferMap;
+	}
 }
@@ -3,6 +3,7 @@ import type { SnapshotDocument } from '@volar/snapshot-document';
 import * as vscode from 'vscode-languageserver';
 import { AutoInsertRequest, FindFileReferenceRequest } from '../../protocol';
 import type { InitializationOptions, ServerProjectProvider, ServerRuntimeEnvironment } from '../types';
+import type { NotebookDocuments } from '../notebookDocuments';
 
 export function registerLanguageFeatures(
 	connection: vscode.Connection,
@@ -12,6 +13,7 @@ export function registerLanguageFeatures(
 	semanticTokensLegend: vscode.SemanticTokensLegend,
 	runtime: ServerRuntimeEnvironment,
 	documents: vscode.TextDocuments<SnapshotDocument>,
+	notebookDocuments: NotebookDocuments,
 ) {
 
 	let lastCompleteUri: string;
@@ -19,6 +21,7 @@ export function registerLanguageFeatures(
 	let lastCodeLensLs: embedded.LanguageService;
 	let lastCodeActionLs: embedded.LanguageService;
 	let lastCallHierarchyLs: embedded.LanguageService;
+	let lastTypeHierarchyLs: embedded.LanguageService;
 	let lastDocumentLinkLs: embedded.LanguageService;
 	let lastInlayHintLs: embedded.LanguageService;
 
@@ -69,16 +72,20 @@ export function registerLanguageFeatures(
 	});
 
 	connection.onCompletion(async (params, token) => {
-		return worker(params.textDocument.uri, token, async service => {
+		const { uri, position } = getDocumentPosition(params.textDocument.uri, params.position);
+		return worker(uri, token, async service => {
 			lastCompleteUri = params.textDocument.uri;
 			lastCompleteLs = service;
-			const document = documents.get(params.textDocument.uri);
-			const list = await service.doComplete(
-				params.textDocument.uri,
-				params.position,
+			const document = documents.get(params.textDocument.uri) ?? notebookDocuments.getCellDocument(params.textDocument.uri);
+			let list = await service.doComplete(
+				uri,
+				position,
 				params.context,
 				token,
 			);
+			if (uri !== params.textDocument.uri) {
+				list = embedded.transformCompletionList(list, getCellRangeMapper(uri, params.textDocument.uri), documents.get(uri)!);
+			}
 			for (const item of list.items) {
 				fixTextEdit(item);
 			}
@@ -115,13 +122,23 @@ export function registerLanguageFeatures(
 	connection.onCompletionResolve(async (item, token) => {
 		if (lastCompleteUri && lastCompleteLs) {
 			item = await lastCompleteLs.doCompletionResolve(item, token);
+			const notebookUri = notebookDocuments.getNotebookUri(lastCompleteUri);
+			const notebookDocument = notebookUri ? documents.get(notebookUri) : undefined;
+			if (notebookUri && notebookDocument) {
+				item = embedded.transformCompletionItem(item, getCellRangeMapper(notebookUri, lastCompleteUri), notebookDocument);
+			}
 			fixTextEdit(item);
 		}
 		return item;
 	});
 	connection.onHover(async (params, token) => {
-		return worker(params.textDocument.uri, token, service => {
-			return service.doHover(params.textDocument.uri, params.position, token);
+		const { uri, position } = getDocumentPosition(params.textDocument.uri, params.position);
+		return worker(uri, token, async service => {
+			const hover = await service.doHover(uri, position, token);
+			if (hover && uri !== params.textDocument.uri) {
+				return embedded.transformHover(hover, getCellRangeMapper(uri, params.textDocument.uri));
+			}
+			return hover;
 		});
 	});
 	connection.onSignatureHelp(async (params, token) => {
@@ -139,8 +156,13 @@ export function registerLanguageFeatures(
 		});
 	});
 	connection.onRenameRequest(async (params, token) => {
-		return worker(params.textDocument.uri, token, service => {
-			return service.doRename(params.textDocument.uri, params.position, params.newName, token);
+		const { uri, position } = getDocumentPosition(params.textDocument.uri, params.position);
+		return worker(uri, token, async service => {
+			const edit = await service.doRename(uri, position, params.newName, token);
+			if (!edit) {
+				return edit;
+			}
+			return toCellWorkspaceEdit(edit) ?? new vscode.ResponseError(0, 'Cannot rename a symbol across notebook cells.');
 		});
 	});
 	connection.onCodeLens(async (params, token) => {
@@ -174,8 +196,10 @@ export function registerLanguageFeatures(
 		return await lastCodeActionLs.doCodeActionResolve(codeAction, token) ?? codeAction;
 	});
 	connection.onReferences(async (params, token) => {
-		return worker(params.textDocument.uri, token, service => {
-			return service.findReferences(params.textDocument.uri, params.position, { includeDeclaration: true }, token);
+		const { uri, position } = getDocumentPosition(params.textDocument.uri, params.position);
+		return worker(uri, token, async service => {
+			const locations = await service.findReferences(uri, position, { includeDeclaration: true }, token);
+			return locations?.map(toCellLocation).filter((location): location is vscode.Location => !!location);
 		});
 	});
 	connection.onRequest(FindFileReferenceRequest.type, async (params, token) => {
@@ -184,23 +208,46 @@ export function registerLanguageFeatures(
 		});
 	});
 	connection.onImplementation(async (params, token) => {
-		return worker(params.textDocument.uri, token, service => {
-			return service.findImplementations(params.textDocument.uri, params.position, token);
+		const { uri, position } = getDocumentPosition(params.textDocument.uri, params.position);
+		return worker(uri, token, async service => {
+			const links = await service.findImplementations(uri, position, token);
+			return links?.map(link => toCellLocationLink(link, uri, params.textDocument.uri)).filter((link): link is vscode.LocationLink => !!link);
 		});
 	});
 	connection.onDefinition(async (params, token) => {
-		return worker(params.textDocument.uri, token, service => {
-			return service.findDefinition(params.textDocument.uri, params.position, token);
+		const { uri, position } = getDocumentPosition(params.textDocument.uri, params.position);
+		return worker(uri, token, async service => {
+			const links = await service.findDefinition(uri, position, token);
+			return links?.map(link => toCellLocationLink(link, uri, params.textDocument.uri)).filter((link): link is vscode.LocationLink => !!link);
 		});
 	});
 	connection.onTypeDefinition(async (params, token) => {
-		return worker(params.textDocument.uri, token, service => {
-			return service.findTypeDefinition(params.textDocument.uri, params.position, token);
+		const { uri, position } = getDocumentPosition(params.textDocument.uri, params.position);
+		return worker(uri, token, async service => {
+			const links = await service.findTypeDefinition(uri, position, token);
+			return links?.map(link => toCellLocationLink(link, uri, params.textDocument.uri)).filter((link): link is vscode.LocationLink => !!link);
 		});
 	});
+	connection.onDeclaration(async (params, token) => {
+		const { uri, position } = getDocumentPosition(params.textDocument.uri, params.position);
+		return worker(uri, token, async service => {
+			const links = await service.findDeclaration(uri, position, token);
+			return links?.map(link => toCellLocationLink(link, uri, params.textDocument.uri)).filter((link): link is vscode.LocationLink => !!link);
+		});
+	});
+	connection.languages.moniker.on(async (params, token) => {
+		return await worker(params.textDocument.uri, token, service => {
+			return service.findMonikers(params.textDocument.uri, params.position, token);
+		}) ?? null;
+	});
 	connection.onDocumentHighlight(async (params, token) => {
-		return worker(params.textDocument.uri, token, service => {
-			return service.findDocumentHighlights(params.textDocument.uri, params.position, token);
+		const { uri, position } = getDocumentPosition(params.textDocument.uri, params.position);
+		return worker(uri, token, async service => {
+			const highlights = await service.findDocumentHighlights(uri, position, token);
+			if (highlights && uri !== params.textDocument.uri) {
+				return embedded.transformLocations(highlights, getCellRangeMapper(uri, params.textDocument.uri));
+			}
+			return highlights;
 		});
 	});
 	connection.onDocumentLinks(async (params, token) => {
@@ -239,6 +286,18 @@ export function registerLanguageFeatures(
 	connection.languages.callHierarchy.onOutgoingCalls(async (params, token) => {
 		return await lastCallHierarchyLs?.callHierarchy.getOutgoingCalls(params.item, token) ?? [];
 	});
+	connection.languages.typeHierarchy.onPrepare(async (params, token) => {
+		return await worker(params.textDocument.uri, token, async service => {
+			lastTypeHierarchyLs = service;
+			return service.typeHierarchy.doPrepare(params.textDocument.uri, params.position, token);
+		}) ?? [];
+	});
+	connection.languages.typeHierarchy.onSupertypes(async (params, token) => {
+		return await lastTypeHierarchyLs?.typeHierarchy.getSupertypes(params.item, token) ?? [];
+	});
+	connection.languages.typeHierarchy.onSubtypes(async (params, token) => {
+		return await lastTypeHierarchyLs?.typeHierarchy.getSubtypes(params.item, token) ?? [];
+	});
 	connection.languages.semanticTokens.on(async (params, token, _, resultProgress) => {
 		await sleep(200);
 		return await worker(params.textDocument.uri, token, async service => {
@@ -251,6 +310,17 @@ export function registerLanguageFeatures(
 			);
 		}) ?? { data: [] };
 	});
+	connection.languages.semanticTokens.onDelta(async (params, token) => {
+		await sleep(200);
+		return await worker(params.textDocument.uri, token, async service => {
+			return await service?.getSemanticTokensDelta(
+				params.textDocument.uri,
+				params.previousResultId,
+				semanticTokensLegend,
+				token,
+			);
+		}) ?? { data: [] };
+	});
 	connection.languages.semanticTokens.onRange(async (params, token, _, resultProgress) => {
 		await sleep(200);
 		return await worker(params.textDocument.uri, token, async service => {
@@ -264,9 +334,13 @@ export function registerLanguageFeatures(
 		}) ?? { data: [] };
 	});
 	connection.languages.diagnostics.on(async (params, token, _workDoneProgressReporter, resultProgressReporter) => {
-		const result = await worker(params.textDocument.uri, token, service => {
-			return service.doValidation(
-				params.textDocument.uri,
+		const uri = notebookDocuments.getNotebookUri(params.textDocument.uri) ?? params.textDocument.uri;
+		const toCellErrors = (errors: vscode.Diagnostic[]) => uri !== params.textDocument.uri
+			? embedded.transformLocations(errors, getCellRangeMapper(uri, params.textDocument.uri))
+			: errors;
+		const result = await worker(uri, token, async service => {
+			const errors = await service.doValidation(
+				uri,
 				token,
 				errors => {
 					// resultProgressReporter is undefined in vscode
@@ -274,18 +348,145 @@ export function registerLanguageFeatures(
 						relatedDocuments: {
 							[params.textDocument.uri]: {
 								kind: vscode.DocumentDiagnosticReportKind.Full,
-								items: errors,
+								items: toCellErrors(errors),
 							},
 						},
 					});
 				},
 			);
+			return {
+				errors: toCellErrors(errors),
+				resultId: service.getDiagnosticsResultId(uri),
+			};
 		});
+		if (result?.resultId !== undefined && result.resultId === params.previousResultId) {
+			return {
+				kind: vscode.DocumentDiagnosticReportKind.Unchanged,
+				resultId: result.resultId,
+			};
+		}
 		return {
 			kind: vscode.DocumentDiagnosticReportKind.Full,
-			items: result ?? [],
+			resultId: result?.resultId,
+			items: result?.errors ?? [],
 		};
 	});
+	connection.languages.diagnostics.onWorkspace(async (params, token, _workDoneProgressReporter, resultProgressReporter) => {
+
+		const previousResultIds = new Map(params.previousResultIds.map(({ uri, value }) => [uri, value]));
+		const items: vscode.WorkspaceDocumentDiagnosticReport[] = [];
+
+		// only changed documents are reported, the request is held until any document changed to avoid the client polling in a loop
+		while (!token.isCancellationRequested) {
+
+			const reportCount = await reportChangedDocuments();
+			if (reportCount) {
+				break;
+			}
+
+			await waitForChanges();
+		}
+
+		return { items };
+
+		async function reportChangedDocuments() {
+
+			const checkedUris = new Set<string>();
+
+			let reportCount = 0;
+
+			for (const project of await projectProvider.getProjects()) {
+
+				// projects without a language service are not loaded or were evicted, don't recreate them
+				const languageService = project.getLanguageServiceDontCreate();
+				if (!languageService) {
+					continue;
+				}
+
+				const fileNames = languageService.context.language.typescript?.projectHost.getScriptFileNames() ?? [];
+
+				for (const fileName of fileNames) {
+
+					const uri = project.serviceEnv.typescript!.fileNameToUri(fileName);
+
+					// opened documents are reported by document pull
+					if (checkedUris.has(uri) || documents.get(uri)) {
+						continue;
+					}
+					checkedUris.add(uri);
+
+					await sleep(0); // waiting LSP event polling
+					if (token.isCancellationRequested) {
+						return reportCount;
+					}
+
+					let errors: vscode.Diagnostic[];
+					try { // handle TS cancel throw
+						errors = await languageService.doValidation(uri, token);
+					}
+					catch {
+						continue;
+					}
+
+					const resultId = languageService.getDiagnosticsResultId(uri);
+					if (resultId !== undefined && resultId === previousResultIds.get(uri)) {
+						continue;
+					}
+					if (resultId !== undefined) {
+						previousResultIds.set(uri, resultId);
+					}
+
+					const report: vscode.WorkspaceDocumentDiagnosticReport = {
+						kind: vscode.DocumentDiagnosticReportKind.Full,
+						uri,
+						version: null,
+						resultId,
+						items: errors,
+					};
+
+					if (resultProgressReporter) {
+						resultProgressReporter.report({ items: [report] });
+					}
+					else {
+						items.push(report);
+					}
+					reportCount++;
+				}
+			}
+
+			return reportCount;
+		}
+
+		async function waitForChanges() {
+
+			const allProjects = await projectProvider.getProjects();
+			const disposables: vscode.Disposable[] = [];
+
+			await new Promise<void>(resolve => {
+				disposables.push(
+					token.onCancellationRequested(() => resolve()),
+					documents.onDidChangeContent(() => resolve()),
+				);
+				for (const project of allProjects) {
+					const watchedFilesDisposable = project.serviceEnv.onDidChangeWatchedFiles?.(() => resolve());
+					const configurationDisposable = project.serviceEnv.onDidChangeConfiguration?.(() => resolve());
+					if (watchedFilesDisposable) {
+						disposables.push(watchedFilesDisposable);
+					}
+					if (configurationDisposable) {
+						disposables.push(configurationDisposable);
+					}
+				}
+			});
+
+			for (const disposable of disposables) {
+				disposable.dispose();
+			}
+
+			// wait for more changes of the same edit
+			await sleep(1000);
+		}
+	});
 	connection.languages.inlayHint.on(async (params, token) => {
 		return worker(params.textDocument.uri, token, async service => {
 			lastInlayHintLs = service;
@@ -295,6 +496,11 @@ export function registerLanguageFeatures(
 	connection.languages.inlayHint.resolve(async (hint, token) => {
 		return await lastInlayHintLs.doInlayHintResolve(hint, token);
 	});
+	connection.languages.inlineValue.on(async (params, token) => {
+		return worker(params.textDocument.uri, token, service => {
+			return service.getInlineValues(params.textDocument.uri, params.range, params.context, token);
+		});
+	});
 	connection.workspace.onWillRenameFiles(async (params, token) => {
 
 		const _edits = await Promise.all(params.files.map(async file => {
@@ -311,6 +517,16 @@ export function registerLanguageFeatures(
 
 		return null;
 	});
+	connection.onExecuteCommand(async (params, token) => {
+		// commands are routed to the project of the document they apply to
+		const uri = params.arguments?.[0];
+		if (typeof uri !== 'string') {
+			return new vscode.ResponseError(0, `The first argument of command "${params.command}" must be a document uri.`);
+		}
+		return await worker(uri, token, service => {
+			return service.executeCommand(params.command, params.arguments, token);
+		});
+	});
 	connection.onRequest(AutoInsertRequest.type, async (params, token) => {
 		return worker(params.textDocument.uri, token, service => {
 			return service.doAutoInsert(params.textDocument.uri, params.position, params.lastChange, token);
@@ -340,6 +556,110 @@ export function registerLanguageFeatures(
 			});
 		});
 	}
+	/**
+	 * Requests of notebook cells are sent to the combined notebook document.
+	 */
+	function getDocumentPosition(uri: string, position: vscode.Position) {
+		return notebookDocuments.toNotebookPosition(uri, position) ?? { uri, position };
+	}
+	function getCellRangeMapper(notebookUri: string, cellUri: string) {
+		return (range: vscode.Range) => {
+			const cellRange = notebookDocuments.toCellRange(notebookUri, range, true);
+			if (cellRange?.uri === cellUri) {
+				return cellRange.range;
+			}
+		};
+	}
+	/**
+	 * A location that spans multiple cells is clipped to the end of the cell it starts in.
+	 */
+	function toCellLocation<T extends vscode.Location>(location: T): T | undefined {
+		if (!notebookDocuments.getCellUris(location.uri)) {
+			return location;
+		}
+		const cellRange = notebookDocuments.toCellRange(location.uri, location.range, true);
+		if (cellRange) {
+			return { ...location, ...cellRange };
+		}
+	}
+	function toCellLocationLink(link: vscode.LocationLink, uri: string, originUri: string): vscode.LocationLink | undefined {
+		if (link.originSelectionRange && uri !== originUri) {
+			const originSelectionRange = getCellRangeMapper(uri, originUri)(link.originSelectionRange);
+			if (!originSelectionRange) {
+				return;
+			}
+			link = { ...link, originSelectionRange };
+		}
+		if (!notebookDocuments.getCellUris(link.targetUri)) {
+			return link;
+		}
+		const targetRange = notebookDocuments.toCellRange(link.targetUri, link.targetRange, true);
+		const targetSelectionRange = notebookDocuments.toCellRange(link.targetUri, link.targetSelectionRange, true);
+		if (targetRange && targetSelectionRange?.uri === targetRange.uri) {
+			return {
+				...link,
+				targetUri: targetRange.uri,
+				targetRange: targetRange.range,
+				targetSelectionRange: targetSelectionRange.range,
+			};
+		}
+	}
+	/**
+	 * Returns `undefined` if some of the text edits span multiple cells, which cannot be applied to the cells.
+	 */
+	function toCellWorkspaceEdit(edit: vscode.WorkspaceEdit): vscode.WorkspaceEdit | undefined {
+		const changes: NonNullable<vscode.WorkspaceEdit['changes']> = {};
+		const documentChanges: NonNullable<vscode.WorkspaceEdit['documentChanges']> = [];
+		for (const uri in edit.changes) {
+			for (const textEdit of edit.changes[uri]) {
+				const location = toCellEditLocation(uri, textEdit.range);
+				if (!location) {
+					return;
+				}
+				changes[location.uri] ??= [];
+				changes[location.uri].push({ ...textEdit, range: location.range });
+			}
+		}
+		for (const change of edit.documentChanges ?? []) {
+			if (!('textDocument' in change) || !notebookDocuments.getCellUris(change.textDocument.uri)) {
+				documentChanges.push(change);
+				continue;
+			}
+			const cellEdits = new Map<string, vscode.TextEdit[]>();
+			for (const textEdit of change.edits) {
+				const location = toCellEditLocation(change.textDocument.uri, textEdit.range);
+				if (!location) {
+					return;
+				}
+				let edits = cellEdits.get(location.uri);
+				if (!edits) {
+					edits = [];
+					cellEdits.set(location.uri, edits);
+				}
+				edits.push({ ...textEdit, range: location.range });
+			}
+			for (const [cellUri, edits] of cellEdits) {
+				documentChanges.push({
+					textDocument: {
+						uri: cellUri,
+						version: notebookDocuments.getCellDocument(cellUri)?.version ?? null,
+					},
+					edits,
+				});
+			}
+		}
+		return {
+			...edit,
+			changes: edit.changes ? changes : undefined,
+			documentChanges: edit.documentChanges ? documentChanges : undefined,
+		};
+	}
+	function toCellEditLocation(uri: string, range: vscode.Range): vscode.Location | undefined {
+		if (!notebookDocuments.getCellUris(uri)) {
+			return { uri, range };
+		}
+		return notebookDocuments.toCellRange(uri, range);
+	}
 	function fixTextEdit(item: vscode.CompletionItem) {
 		const insertReplaceSupport = initParams.capabilities.textDocument?.completion?.completionItem?.insertReplaceSupport ?? false;
 		if (!insertReplaceSupport) {
@@ -1,4 +1,4 @@
-import { FileSystem, LanguagePlugin, ServiceEnvironment, ServicePlugin, standardSemanticTokensLegend } from '@volar/language-service';
+import { FileSystem, LanguagePlugin, PerformanceTracer, ServiceEnvironment, ServicePlugin, createPerformanceTracer, standardSemanticTokensLegend } from '@volar/language-service';
 import * as l10n from '@vscode/l10n';
 import { configure as configureHttpRequests } from 'request-light';
 import * as vscode from 'vscode-languageserver';
@@ -7,6 +7,10 @@ import { DiagnosticModel, InitializationOptions, ProjectContext, ServerProjectPr
 import { createConfigurationHost } from './configurationHost.js';
 import { setupCapabilities } from './setupCapabilities.js';
 import { WorkspaceFolderManager, createWorkspaceFolderManager } from './workspaceFolderManager.js';
+import { DiagnosticsPass, createDiagnosticsScheduler } from './diagnosticsScheduler.js';
+import { createNotebookDocuments } from './notebookDocuments.js';
+import { ServerStatus, createServerStatus } from './serverStatus.js';
+import { VisibleDocumentsNotification } from '../protocol';
 import { SnapshotDocument } from '@volar/snapshot-document';
 import type * as ts from 'typescript';
 import type { TextDocuments } from 'vscode-languageserver';
@@ -21,6 +25,8 @@ export interface ServerContext {
 	tsLocalized: ts.MapLike<string> | undefined;
 	workspaceFolders: WorkspaceFolderManager;
 	documents: TextDocuments<SnapshotDocument>;
+	tracer: PerformanceTracer | undefined;
+	status: ServerStatus;
 	reloadDiagnostics(): void;
 	updateDiagnosticsAndSemanticTokens(): void;
 }
@@ -40,9 +46,8 @@ export function createServerBase(
 	let projects: ServerProjectProvider;
 	let serverOptions: ServerOptions;
 	let semanticTokensReq = 0;
-	let documentUpdatedReq = 0;
 
-	const documents = new vscode.TextDocuments({
+	const documentsConfiguration: vscode.TextDocumentsConfiguration<SnapshotDocument> = {
 		create(uri, languageId, version, text) {
 			return new SnapshotDocument(uri, languageId, version, text);
 		},
@@ -50,11 +55,15 @@ export function createServerBase(
 			snapshot.update(contentChanges, version);
 			return snapshot;
 		},
-	});
+	};
+	const documents = new vscode.TextDocuments(documentsConfiguration);
+	const notebookDocuments = createNotebookDocuments(documentsConfiguration);
 	const didChangeWatchedFilesCallbacks = new Set<vscode.NotificationHandler<vscode.DidChangeWatchedFilesParams>>();
 	const workspaceFolderManager = createWorkspaceFolderManager();
+	const folderWatchers = new Map<string, vscode.Disposable>();
+	const diagnosticsScheduler = createDiagnosticsScheduler(documents, sendDocumentDiagnostics, connection.console);
 
-	documents.listen(connection);
+	documents.listen(notebookDocuments.listen(connection));
 
 	return {
 		initialize,
@@ -103,6 +112,10 @@ export function createServerBase(
 			tsLocalized: undefined,
 			documents,
 			workspaceFolders: workspaceFolderManager,
+			tracer: params.initializationOptions?.performanceTrace
+				? createPerformanceTracer()
+				: undefined,
+			status: createServerStatus(connection),
 			reloadDiagnostics,
 			updateDiagnosticsAndSemanticTokens,
 		};
@@ -163,11 +176,27 @@ export function createServerBase(
 			updateDiagnostics(document.uri);
 		});
 		documents.onDidClose(({ document }) => {
+			clearDocumentCaches(document.uri);
 			context.connection.sendDiagnostics({ uri: document.uri, diagnostics: [] });
+			for (const cellUri of notebookDocuments.getCellUris(document.uri) ?? []) {
+				context.connection.sendDiagnostics({ uri: cellUri, diagnostics: [] });
+			}
+		});
+		notebookDocuments.notebooks.onDidChange(({ cells }) => {
+			for (const cell of cells?.removed ?? []) {
+				context.connection.sendDiagnostics({ uri: cell.document, diagnostics: [] });
+			}
 		});
 		context.configurationHost?.onDidChangeConfiguration?.(updateDiagnosticsAndSemanticTokens);
+		connection.onNotification(VisibleDocumentsNotification.type, params => {
+			const toDocumentUri = (uri: string) => notebookDocuments.getNotebookUri(uri) ?? uri;
+			diagnosticsScheduler.setVisibleDocuments(
+				params.uris.map(toDocumentUri),
+				params.activeUri !== undefined ? toDocumentUri(params.activeUri) : undefined,
+			);
+		});
 
-		(await import('./register/registerEditorFeatures.js')).registerEditorFeatures(connection, projects, context.runtimeEnv);
+		(await import('./register/registerEditorFeatures.js')).registerEditorFeatures(connection, projects, context.runtimeEnv, context.tracer);
 		(await import('./register/registerLanguageFeatures.js')).registerLanguageFeatures(
 			connection,
 			projects,
@@ -176,6 +205,7 @@ export function createServerBase(
 			getSemanticTokensLegend(),
 			context.runtimeEnv,
 			documents,
+			notebookDocuments,
 		);
 
 		try {
@@ -197,25 +227,40 @@ export function createServerBase(
 
 		updateHttpSettings();
 
+		const useServerWatcher = !context.initializeParams.capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration
+			&& !!serverOptions.watchFileExtensions?.length
+			&& !!context.runtimeEnv.watchFiles;
+
 		if (context.initializeParams.capabilities.workspace?.workspaceFolders) {
 			connection.workspace.onDidChangeWorkspaceFolders(e => {
 
 				for (const folder of e.added) {
 					workspaceFolderManager.add(URI.parse(folder.uri));
+					if (useServerWatcher) {
+						watchFolder(URI.parse(folder.uri));
+					}
 				}
 
 				for (const folder of e.removed) {
 					workspaceFolderManager.remove(URI.parse(folder.uri));
+					if (useServerWatcher) {
+						unwatchFolder(URI.parse(folder.uri));
+					}
 				}
 			});
 		}
 
-		if (context.initializeParams.capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration) {
+		if (useServerWatcher) {
+			for (const folder of workspaceFolderManager.getAll()) {
+				watchFolder(folder);
+			}
+		}
+		else if (context.initializeParams.capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration) {
 			if (serverOptions.watchFileExtensions?.length) {
 				connection.client.register(vscode.DidChangeWatchedFilesNotification.type, {
 					watchers: [
 						{
-							globPattern: `**/*.{${serverOptions.watchFileExtensions.join(',')}}`
+							globPattern: getWatchGlobPattern(serverOptions.watchFileExtensions),
 						},
 					]
 				});
@@ -227,6 +272,23 @@ export function createServerBase(
 			}
 		}
 
+		function watchFolder(folder: URI) {
+			const key = folder.toString();
+			if (!folderWatchers.has(key)) {
+				folderWatchers.set(key, context.runtimeEnv.watchFiles!(key, [getWatchGlobPattern(serverOptions.watchFileExtensions!)], changes => {
+					for (const cb of didChangeWatchedFilesCallbacks) {
+						cb({ changes });
+					}
+				}));
+			}
+		}
+
+		function unwatchFolder(folder: URI) {
+			const key = folder.toString();
+			folderWatchers.get(key)?.dispose();
+			folderWatchers.delete(key);
+		}
+
 		async function updateHttpSettings() {
 			const httpSettings = await context.configurationHost?.getConfiguration?.<{ proxyStrictSSL: boolean; proxy: string; }>('http');
 			configureHttpRequests(httpSettings?.proxy, httpSettings?.proxyStrictSSL ?? false);
@@ -234,6 +296,10 @@ export function createServerBase(
 	}
 
 	function shutdown() {
+		for (const watcher of folderWatchers.values()) {
+			watcher.dispose();
+		}
+		folderWatchers.clear();
 		projects?.reloadProjects();
 	}
 
@@ -286,6 +352,17 @@ export function createServerBase(
 		};
 	}
 
+	async function clearDocumentCaches(uri: string) {
+		try {
+			for (const project of await projects.getProjects()) {
+				const languageService = project.getLanguageServiceDontCreate();
+				languageService?.clearSemanticTokensCache(uri);
+				languageService?.clearReportedErrors(uri);
+			}
+		}
+		catch { }
+	}
+
 	function getSemanticTokensLegend() {
 		if (!context.initializeParams.initializationOptions?.semanticTokensLegend) {
 			return standardSemanticTokensLegend;
@@ -307,7 +384,8 @@ export function createServerBase(
 
 		const req = ++semanticTokensReq;
 
-		await updateDiagnostics();
+		// the diagnostics queue is not drained while typing, don't hold the refresh until then
+		updateDiagnostics();
 
 		const delay = 250;
 		await sleep(delay);
@@ -327,49 +405,45 @@ export function createServerBase(
 		}
 	}
 
-	async function updateDiagnostics(docUri?: string) {
+	function updateDiagnostics(docUri?: string) {
 
 		if ((context.initializeParams.initializationOptions?.diagnosticModel ?? DiagnosticModel.Push) !== DiagnosticModel.Push) {
 			return;
 		}
 
-		const req = ++documentUpdatedReq;
-		const delay = 250;
-		const token: vscode.CancellationToken = {
-			get isCancellationRequested() {
-				return req !== documentUpdatedReq;
-			},
-			onCancellationRequested: vscode.Event.None,
-		};
-		const changeDoc = docUri ? documents.get(docUri) : undefined;
-		const otherDocs = [...documents.all()].filter(doc => doc !== changeDoc);
+		diagnosticsScheduler.schedule(docUri);
+	}
 
-		if (changeDoc) {
-			await sleep(delay);
-			if (token.isCancellationRequested) {
-				return;
-			}
-			await sendDocumentDiagnostics(changeDoc.uri, changeDoc.version, token);
+	async function sendDocumentDiagnostics(uri: string, version: number, pass: DiagnosticsPass, token: vscode.CancellationToken) {
+
+		const languageService = (await projects.getProject(uri)).getLanguageService();
+		const errors = await languageService.doValidation(uri, token, undefined, pass);
+
+		if (token.isCancellationRequested) {
+			return;
 		}
 
-		for (const doc of otherDocs) {
-			await sleep(delay);
-			if (token.isCancellationRequested) {
-				break;
+		const cellUris = notebookDocuments.getCellUris(uri);
+		if (cellUris) {
+			const cellErrors = new Map(cellUris.map(cellUri => [cellUri, [] as vscode.Diagnostic[]]));
+			for (const error of errors) {
+				const cellRange = notebookDocuments.toCellRange(uri, error.range, true);
+				if (cellRange) {
+					cellErrors.get(cellRange.uri)?.push({ ...error, range: cellRange.range });
+				}
+			}
+			for (const [cellUri, diagnostics] of cellErrors) {
+				context.connection.sendDiagnostics({ uri: cellUri, diagnostics, version: notebookDocuments.getCellDocument(cellUri)?.version });
 			}
-			await sendDocumentDiagnostics(doc.uri, doc.version, token);
+		}
+		else {
+			context.connection.sendDiagnostics({ uri: uri, diagnostics: errors, version });
 		}
 	}
+}
 
-	async function sendDocumentDiagnostics(uri: string, version: number, cancel: vscode.CancellationToken) {
-
-		const languageService = (await projects.getProject(uri)).getLanguageService();
-		const errors = await languageService.doValidation(uri, cancel, result => {
-			context.connection.sendDiagnostics({ uri: uri, diagnostics: result, version });
-		});
-
-		context.connection.sendDiagnostics({ uri: uri, diagnostics: errors, version });
-	}
+function getWatchGlobPattern(fileExtensions: string[]) {
+	return `**/*.{${fileExtensions.join(',')}}`;
 }
 
 function sleep(ms: number) {
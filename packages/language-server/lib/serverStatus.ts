@@ -0,0 +1,88 @@
+import type * as vscode from 'vscode-languageserver';
+import { ServerStatusNotification } from '../protocol';
+
+export type ServerStatus = ReturnType<typeof createServerStatus>;
+
+export type ProjectStatus = ReturnType<ServerStatus['createProjectStatus']>;
+
+/**
+ * Report project loading with `window/workDoneProgress` and summarize the state of all projects with `ServerStatusNotification`.
+ */
+export function createServerStatus(connection: vscode.Connection) {
+
+	const projects = new Set<ServerStatusNotification.ProjectStatus>();
+
+	return {
+		createProjectStatus(name: string) {
+
+			const status: ServerStatusNotification.ProjectStatus = {
+				name,
+				state: 'loading',
+			};
+			// resolves to `undefined` if the progress cannot be created
+			let progress: Promise<vscode.WorkDoneProgressServerReporter | undefined> | undefined;
+
+			projects.add(status);
+
+			return {
+				/**
+				 * Resolves after the progress is sent, so that it is shown before the caller blocks on synchronous work.
+				 */
+				report(message: string) {
+					if (!progress) {
+						progress = connection.window.createWorkDoneProgress().then(
+							reporter => {
+								reporter.begin(name, undefined, message);
+								return reporter;
+							},
+							() => undefined,
+						);
+					}
+					else {
+						progress = progress.then(reporter => {
+							reporter?.report(message);
+							return reporter;
+						});
+					}
+					update({ state: 'loading', message });
+					return progress.then(() => new Promise<void>(resolve => setTimeout(resolve, 0)));
+				},
+				done(fileCount?: number) {
+					endProgress();
+					update({ state: 'ready', fileCount: fileCount ?? status.fileCount });
+				},
+				fail(error: unknown) {
+					endProgress();
+					update({ state: 'error', message: String(error) });
+				},
+				dispose() {
+					endProgress();
+					projects.delete(status);
+					sendStatus();
+				},
+			};
+
+			function update(newStatus: Omit<ServerStatusNotification.ProjectStatus, 'name'>) {
+				status.state = newStatus.state;
+				status.message = newStatus.message;
+				status.fileCount = newStatus.fileCount ?? status.fileCount;
+				sendStatus();
+			}
+
+			function endProgress() {
+				progress?.then(reporter => reporter?.done());
+				progress = undefined;
+			}
+		},
+	};
+
+	function sendStatus() {
+		const statuses = [...projects];
+		connection.sendNotification(ServerStatusNotification.type, {
+			state: statuses.some(status => status.state === 'loading') ? 'loading'
+				: statuses.some(status => status.state === 'error') ? 'error'
+					: 'ready',
+			projects: statuses.map(status => ({ ...status })),
+		});
+	}
+}
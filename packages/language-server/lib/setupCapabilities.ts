@@ -10,6 +10,12 @@ export function setupCapabilities(
 	semanticTokensLegend: vscode.SemanticTokensLegend,
 ) {
 
+	if (initOptions.notebookSelector?.length) {
+		server.notebookDocumentSync = {
+			notebookSelector: initOptions.notebookSelector,
+		};
+	}
+
 	server.selectionRangeProvider = true;
 	server.foldingRangeProvider = true;
 	server.linkedEditingRangeProvider = true;
@@ -29,7 +35,10 @@ export function setupCapabilities(
 	server.implementationProvider = true;
 	server.definitionProvider = true;
 	server.typeDefinitionProvider = true;
+	server.declarationProvider = true;
 	server.callHierarchyProvider = true;
+	server.typeHierarchyProvider = true;
+	server.monikerProvider = true;
 	server.hoverProvider = true;
 	server.renameProvider = {
 		prepareProvider: true,
@@ -55,7 +64,9 @@ export function setupCapabilities(
 	};
 	server.semanticTokensProvider = {
 		range: true,
-		full: false,
+		full: {
+			delta: true,
+		},
 		legend: semanticTokensLegend,
 	};
 	server.codeActionProvider = {
@@ -75,6 +86,7 @@ export function setupCapabilities(
 	server.inlayHintProvider = {
 		resolveProvider: true,
 	};
+	server.inlineValueProvider = true;
 	if (watchExts.length) {
 		server.workspace = {
 			fileOperations: {
@@ -91,12 +103,18 @@ export function setupCapabilities(
 		};
 	}
 	server.workspaceSymbolProvider = true;
+	const commands = [...new Set(services.map(service => service.commands ?? []).flat())];
+	if (commands.length) {
+		server.executeCommandProvider = {
+			commands,
+		};
+	}
 
 	// diagnostics are shunted in the api
 	if ((initOptions.diagnosticModel ?? DiagnosticModel.Push) === DiagnosticModel.Pull) {
 		server.diagnosticProvider = {
 			interFileDependencies: true,
-			workspaceDiagnostics: false,
+			workspaceDiagnostics: true,
 		};
 	}
 }
@@ -18,6 +18,10 @@ export interface ServerRuntimeEnvironment {
 	// https://github.com/microsoft/vscode/blob/7927075f89db213bc6e2182fa684d514d69e2359/extensions/html-language-features/server/src/htmlServer.ts#L53-L56
 	timer: Timer;
 	console: Console;
+	/**
+	 * Watch the files matching `globPatterns` in a workspace folder when the client cannot register file watchers.
+	 */
+	watchFiles?(folderUri: string, globPatterns: string[], cb: (changes: vscode.FileEvent[]) => void): vscode.Disposable;
 }
 
 export interface ProjectContext {
@@ -68,6 +72,31 @@ export interface InitializationOptions {
 	 */
 	semanticTokensLegend?: vscode.SemanticTokensLegend;
 	codegenStack?: boolean;
+	/**
+	 * Max number of TypeScript projects to keep alive.
+	 * Least recently used projects without opened documents are disposed first, and recreated on demand.
+	 */
+	maxProjects?: number;
+	/**
+	 * Minutes after which a TypeScript project without opened documents is disposed.
+	 */
+	projectIdleTimeout?: number;
+	/**
+	 * Record timing spans of service plugins and virtual code updates, which can be dumped by `PerformanceTraceRequest`.
+	 */
+	performanceTrace?: boolean;
+	/**
+	 * Notebooks to sync, the cells of each notebook are combined into one document so that features work across cells.
+	 */
+	notebookSelector?: vscode.NotebookDocumentSyncOptions['notebookSelector'];
+	/**
+	 * Milliseconds a service plugin may spend in a feature, keyed by the method name such as `provideCompletionItems`.
+	 */
+	timeBudgets?: ServiceEnvironment['timeBudgets'];
+	/**
+	 * Directives such as `volar-ignore-next-line` that suppress diagnostics, `false` to disable them.
+	 */
+	diagnosticSuppression?: ServiceEnvironment['diagnosticSuppression'];
 }
 
 export interface ServerProject {
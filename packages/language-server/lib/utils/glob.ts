@@ -0,0 +1,50 @@
+/**
+ * Match paths relative to a folder against the glob patterns of file watchers, which support `*`, `**`, `?` and `{a,b}`.
+ */
+export function createGlobMatcher(globPatterns: string[]) {
+	const regexps = globPatterns.map(globToRegExp);
+	return (relativePath: string) => regexps.some(regexp => regexp.test(relativePath));
+}
+
+function globToRegExp(globPattern: string) {
+
+	let source = '';
+	let inGroup = false;
+
+	for (let i = 0; i < globPattern.length; i++) {
+		const char = globPattern[i];
+		if (char === '*' && globPattern[i + 1] === '*') {
+			// `**/` also matches no directory
+			if (globPattern[i + 2] === '/') {
+				source += '(?:.*/)?';
+				i += 2;
+			}
+			else {
+				source += '.*';
+				i++;
+			}
+		}
+		else if (char === '*') {
+			source += '[^/]*';
+		}
+		else if (char === '?') {
+			source += '[^/]';
+		}
+		else if (char === '{') {
+			source += '(?:';
+			inGroup = true;
+		}
+		else if (char === '}' && inGroup) {
+			source += ')';
+			inGroup = false;
+		}
+		else if (char === ',' && inGroup) {
+			source += '|';
+		}
+		else {
+			source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+		}
+	}
+
+	return new RegExp('^' + source + '$');
+}
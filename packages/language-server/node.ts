@@ -1,9 +1,10 @@
-import { FileSystem, FileType } from '@volar/language-service';
+import { Console, FileSystem, FileType } from '@volar/language-service';
 import * as fs from 'fs';
 import * as vscode from 'vscode-languageserver/node';
 import { URI } from 'vscode-uri';
 import httpSchemaRequestHandler from './lib/schemaRequestHandlers/http';
 import { createServerBase } from './lib/server';
+import { createGlobMatcher } from './lib/utils/glob';
 import type { InitializationOptions } from './lib/types';
 
 export * from 'vscode-languageserver/node';
@@ -79,6 +80,150 @@ export function createFs(options: InitializationOptions): FileSystem {
 	};
 }
 
+const ignoredDirNames = ['node_modules', '.git'];
+
+/**
+ * Watch files matching `globPatterns` with `fs.watch`, changes are debounced and reported as LSP file events.
+ * `node_modules` and `.git` are not watched.
+ * On Linux, recursive watching would add a watcher for every directory including the ignored ones,
+ * so the other directories are watched one by one instead.
+ */
+export function watchFiles(folderUri: string, globPatterns: string[], cb: (changes: vscode.FileEvent[]) => void, console: Console): vscode.Disposable {
+
+	const folderName = uriToFileName(folderUri);
+	const isMatch = createGlobMatcher(globPatterns);
+	const pending = new Map<string, 'rename' | 'change'>();
+	// by directory path relative to the folder, the folder itself is ''
+	const watchers = new Map<string, fs.FSWatcher>();
+	const recursive = process.platform !== 'linux';
+	const debounce = 100;
+
+	let disposed = false;
+	let timeout: NodeJS.Timeout | undefined;
+
+	if (recursive) {
+		watchDir('');
+	}
+	else {
+		watchTree('');
+	}
+
+	return {
+		dispose() {
+			disposed = true;
+			clearTimeout(timeout);
+			for (const watcher of watchers.values()) {
+				watcher.close();
+			}
+			watchers.clear();
+		},
+	};
+
+	function watchTree(relativeDir: string) {
+		if (watchers.has(relativeDir)) {
+			return;
+		}
+		watchDir(relativeDir);
+		let entries: fs.Dirent[];
+		try {
+			entries = fs.readdirSync(toFileName(relativeDir), { withFileTypes: true });
+		}
+		catch {
+			return;
+		}
+		for (const entry of entries) {
+			if (entry.isDirectory() && !ignoredDirNames.includes(entry.name)) {
+				watchTree(relativeDir ? relativeDir + '/' + entry.name : entry.name);
+			}
+		}
+	}
+
+	function watchDir(relativeDir: string) {
+		const dirName = toFileName(relativeDir);
+		try {
+			const watcher = fs.watch(dirName, { recursive }, (event, fileName) => {
+				if (fileName) {
+					fileName = fileName.replace(/\\/g, '/');
+					onWatch(event, relativeDir ? relativeDir + '/' + fileName : fileName);
+				}
+			});
+			watcher.on('error', err => {
+				watcher.close();
+				watchers.delete(relativeDir);
+				// watchers of removed subdirectories fail as well
+				if (!relativeDir) {
+					console.warn(`[volar] failed to watch ${folderName}: ${err}`);
+				}
+			});
+			watchers.set(relativeDir, watcher);
+		}
+		catch (err) {
+			console.warn(`[volar] failed to watch ${dirName}: ${err}`);
+		}
+	}
+
+	function onWatch(event: fs.WatchEventType, relativePath: string) {
+		if (relativePath.split('/').some(name => ignoredDirNames.includes(name))) {
+			return;
+		}
+		if (!recursive && event === 'rename') {
+			updateTreeWatchers(relativePath);
+		}
+		if (!isMatch(relativePath)) {
+			return;
+		}
+		const fileName = toFileName(relativePath);
+		if (pending.get(fileName) !== 'rename') {
+			pending.set(fileName, event);
+		}
+		clearTimeout(timeout);
+		timeout = setTimeout(flush, debounce);
+	}
+
+	/**
+	 * Watch created directories and close the watchers of removed directories.
+	 */
+	function updateTreeWatchers(relativePath: string) {
+		let isDirectory = false;
+		try {
+			isDirectory = fs.statSync(toFileName(relativePath)).isDirectory();
+		}
+		catch { }
+		if (isDirectory) {
+			watchTree(relativePath);
+		}
+		else {
+			for (const [relativeDir, watcher] of watchers) {
+				if (relativeDir === relativePath || relativeDir.startsWith(relativePath + '/')) {
+					watcher.close();
+					watchers.delete(relativeDir);
+				}
+			}
+		}
+	}
+
+	function flush() {
+		const changes: vscode.FileEvent[] = [];
+		for (const [fileName, event] of pending) {
+			const exists = fs.existsSync(fileName);
+			changes.push({
+				uri: fileNameToUri(fileName),
+				type: !exists ? vscode.FileChangeType.Deleted
+					: event === 'change' ? vscode.FileChangeType.Changed
+						: vscode.FileChangeType.Created,
+			});
+		}
+		pending.clear();
+		if (!disposed && changes.length) {
+			cb(changes);
+		}
+	}
+
+	function toFileName(relativePath: string) {
+		return relativePath ? folderName + '/' + relativePath : folderName;
+	}
+}
+
 export function createConnection() {
 	return vscode.createConnection(vscode.ProposedFeatures.all);
 }
@@ -129,5 +274,6 @@ export function createServer(connection: vscode.Connection) {
 			} catch { }
 		},
 		fs: createFs(params.initializationOptions ?? {}),
+		watchFiles: (folderUri, globPatterns, cb) => watchFiles(folderUri, globPatterns, cb, connection.console),
 	}));
 }
@@ -1,5 +1,5 @@
 import type { CodeMapping, Stack } from '@volar/language-core';
-import type { FileStat, FileType, DocumentDropEdit } from '@volar/language-service';
+import type { ChromeTrace, FileStat, FileType, DocumentDropEdit, DocumentPasteEdit, ServicePluginQuarantineEvent } from '@volar/language-service';
 import * as vscode from 'vscode-languageserver-protocol';
 
 /**
@@ -18,6 +18,29 @@ export namespace FsStatRequest {
 	export const type = new vscode.RequestType<vscode.DocumentUri, FileStat, unknown>('volar/server/fs/stat');
 }
 
+export namespace ServerStatusNotification {
+	export type State = 'loading' | 'ready' | 'error';
+	export type ProjectStatus = {
+		name: string;
+		state: State;
+		message?: string;
+		fileCount?: number;
+	};
+	export type ParamsType = {
+		state: State;
+		projects: ProjectStatus[];
+	};
+	export const type = new vscode.NotificationType<ParamsType>('volar/server/status');
+}
+
+/**
+ * Sent when a service plugin is disabled after crashing repeatedly, and when it is enabled again.
+ */
+export namespace ServicePluginQuarantineNotification {
+	export type ParamsType = ServicePluginQuarantineEvent;
+	export const type = new vscode.NotificationType<ParamsType>('volar/server/servicePluginQuarantine');
+}
+
 /**
  * Client request server
  */
@@ -58,6 +81,17 @@ export namespace ReloadProjectNotification {
 	export const type = new vscode.NotificationType<vscode.TextDocumentIdentifier>('volar/client/reloadProject');
 }
 
+/**
+ * Documents shown in editors are checked for diagnostics first, the active document before the others.
+ */
+export namespace VisibleDocumentsNotification {
+	export type ParamsType = {
+		uris: vscode.DocumentUri[];
+		activeUri: vscode.DocumentUri | undefined;
+	};
+	export const type = new vscode.NotificationType<ParamsType>('volar/client/visibleDocuments');
+}
+
 /**
  * Document Drop
  */
@@ -96,6 +130,39 @@ export namespace DocumentDrop_DataTransferItemFileDataRequest {
 	export const type = new vscode.RequestType<ParamsType, ResponseType, ErrorType>('volar/client/documentDrop/fileData');
 }
 
+/**
+ * Document Paste
+ */
+
+export namespace DocumentPasteRequest {
+	export type ParamsType = {
+		textDocument: vscode.TextDocumentIdentifier;
+		ranges: vscode.Range[];
+		dataTransfer: DocumentDropRequest.ParamsType['dataTransfer'];
+	};
+	export type ResponseType = DocumentPasteEdit | null | undefined;
+	export type ErrorType = never;
+	export const type = new vscode.RequestType<ParamsType, ResponseType, ErrorType>('volar/client/documentPaste');
+}
+
+export namespace DocumentPaste_DataTransferItemAsStringRequest {
+	export type ParamsType = {
+		mimeType: string;
+	};
+	export type ResponseType = string;
+	export type ErrorType = never;
+	export const type = new vscode.RequestType<ParamsType, ResponseType, ErrorType>('volar/client/documentPaste/asString');
+}
+
+export namespace DocumentPaste_DataTransferItemFileDataRequest {
+	export type ParamsType = {
+		mimeType: string;
+	};
+	export type ResponseType = Uint8Array;
+	export type ErrorType = never;
+	export const type = new vscode.RequestType<ParamsType, ResponseType, ErrorType>('volar/client/documentPaste/fileData');
+}
+
 /**
  * Labs
  */
@@ -118,6 +185,19 @@ export namespace UpdateServicePluginStateNotification {
 	export const type = new vscode.NotificationType<ParamsType>('volar/client/labs/updateServicePluginState');
 }
 
+/**
+ * Enable a service plugin disabled by `ServicePluginQuarantineNotification` before its cooldown ends.
+ */
+export namespace ReleaseServicePluginRequest {
+	export type ParamsType = {
+		uri: string;
+		serviceId: string;
+	};
+	export type ResponseType = boolean;
+	export type ErrorType = never;
+	export const type = new vscode.RequestType<ParamsType, ResponseType, ErrorType>('volar/client/labs/releaseServicePlugin');
+}
+
 export namespace GetServicePluginsRequest {
 	export type ParamsType = vscode.TextDocumentIdentifier;
 	export type ResponseType = {
@@ -162,3 +242,12 @@ export namespace GetVirtualCodeRequest {
 export namespace LoadedTSFilesMetaRequest {
 	export const type = new vscode.RequestType0('volar/client/loadedTsFiles');
 }
+
+/**
+ * Returns the spans recorded since the last request, requires `InitializationOptions.performanceTrace`.
+ */
+export namespace PerformanceTraceRequest {
+	export type ResponseType = ChromeTrace | null | undefined;
+	export type ErrorType = never;
+	export const type = new vscode.RequestType0<ResponseType, ErrorType>('volar/client/performanceTrace');
+}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type * as vscode from 'vscode-languageserver';
+import { createDiagnosticsScheduler, type DiagnosticsPass } from '../lib/diagnosticsScheduler';
+
+function createDocuments(uris: string[]) {
+	const versions = new Map(uris.map(uri => [uri, 0]));
+	return {
+		versions,
+		documents: {
+			all: () => [...versions].map(([uri, version]) => ({ uri, version })),
+			get: (uri: string) => versions.has(uri) ? { uri, version: versions.get(uri)! } : undefined,
+		} as unknown as vscode.TextDocuments<any>,
+	};
+}
+
+function createConsole() {
+	return { warn: vi.fn() } as unknown as vscode.RemoteConsole;
+}
+
+describe(`Test diagnostics scheduler`, () => {
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it(`checks the active and visible documents first`, async () => {
+		const { documents } = createDocuments(['a', 'b', 'c']);
+		const checks: string[] = [];
+		const scheduler = createDiagnosticsScheduler(documents, async (uri, _version, pass) => {
+			checks.push(uri + ':' + pass);
+		}, createConsole());
+
+		scheduler.setVisibleDocuments(['b', 'c'], 'c');
+		const done = scheduler.schedule();
+		await vi.runAllTimersAsync();
+		await done;
+
+		expect(checks).toEqual([
+			'c:syntactic',
+			'c:semantic',
+			'b:syntactic',
+			'b:semantic',
+			'a:syntactic',
+			'a:semantic',
+		]);
+	});
+
+	it(`only runs the syntactic pass of the changed document`, async () => {
+		const { documents } = createDocuments(['a', 'b']);
+		const checks: string[] = [];
+		const scheduler = createDiagnosticsScheduler(documents, async (uri, _version, pass) => {
+			checks.push(uri + ':' + pass);
+		}, createConsole());
+
+		const done = scheduler.schedule('b');
+		await vi.runAllTimersAsync();
+		await done;
+
+		expect(checks).toEqual([
+			'b:syntactic',
+			'b:semantic',
+			'a:semantic',
+		]);
+	});
+
+	it(`checks a document again if it changed during the check`, async () => {
+		const { documents, versions } = createDocuments(['a']);
+		const checks: [number, DiagnosticsPass][] = [];
+		const scheduler = createDiagnosticsScheduler(documents, async (uri, version, pass) => {
+			checks.push([version, pass]);
+			if (version === 0 && pass === 'semantic') {
+				versions.set(uri, 1);
+			}
+		}, createConsole());
+
+		const done = scheduler.schedule('a');
+		await vi.runAllTimersAsync();
+		await done;
+
+		expect(checks).toEqual([
+			[0, 'syntactic'],
+			[0, 'semantic'],
+			[1, 'semantic'],
+		]);
+	});
+
+	it(`keeps checking after a check failed`, async () => {
+		const { documents } = createDocuments(['a', 'b']);
+		const console = createConsole();
+		const checks: string[] = [];
+		const scheduler = createDiagnosticsScheduler(documents, async (uri, _version, pass) => {
+			checks.push(uri + ':' + pass);
+			if (uri === 'a') {
+				throw new Error('check failed');
+			}
+		}, console);
+
+		const done = scheduler.schedule('a');
+		await vi.runAllTimersAsync();
+		await done;
+
+		expect(checks).toEqual([
+			'a:syntactic',
+			'a:semantic',
+			'b:semantic',
+		]);
+		expect(console.warn).toHaveBeenCalledTimes(2);
+	});
+
+	it(`waits about as long as the last checks took`, async () => {
+		const { documents } = createDocuments(['a', 'b']);
+		const starts: number[] = [];
+		const scheduler = createDiagnosticsScheduler(documents, async () => {
+			starts.push(Date.now());
+			vi.advanceTimersByTime(200);
+		}, createConsole());
+
+		const start = Date.now();
+		const done = scheduler.schedule();
+		await vi.runAllTimersAsync();
+		await done;
+
+		expect(starts.map(time => time - start)).toEqual([
+			50, // no check has run yet, the minimum delay
+			450, // 200ms check + 200ms delay
+			850,
+			1250,
+		]);
+	});
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createGlobMatcher } from '../lib/utils/glob';
+
+describe(`Test createGlobMatcher()`, () => {
+
+	it(`matches any number of directories with **/`, () => {
+		const isMatch = createGlobMatcher(['**/*.ts']);
+		expect(isMatch('a.ts')).toBe(true);
+		expect(isMatch('src/a.ts')).toBe(true);
+		expect(isMatch('src/lib/a.ts')).toBe(true);
+		expect(isMatch('a.tsx')).toBe(false);
+		expect(isMatch('src/a.js')).toBe(false);
+	});
+
+	it(`matches one of the alternatives of {a,b}`, () => {
+		const isMatch = createGlobMatcher(['**/*.{ts,vue}']);
+		expect(isMatch('src/a.ts')).toBe(true);
+		expect(isMatch('src/a.vue')).toBe(true);
+		expect(isMatch('src/a.js')).toBe(false);
+	});
+
+	it(`matches one character except / with ?`, () => {
+		const isMatch = createGlobMatcher(['src/?.ts']);
+		expect(isMatch('src/a.ts')).toBe(true);
+		expect(isMatch('src/ab.ts')).toBe(false);
+		expect(isMatch('src//.ts')).toBe(false);
+	});
+
+	it(`does not match directories with *`, () => {
+		const isMatch = createGlobMatcher(['*.json', 'src/**/tsconfig.json']);
+		expect(isMatch('package.json')).toBe(true);
+		expect(isMatch('src/package.json')).toBe(false);
+		expect(isMatch('src/tsconfig.json')).toBe(true);
+		expect(isMatch('src/a/b/tsconfig.json')).toBe(true);
+	});
+});
@@ -3,6 +3,9 @@ export * from './lib/languageService';
 export * from './lib/documents';
 export { mergeWorkspaceEdits } from './lib/features/provideRenameEdits';
 export * from './lib/types';
+export * from './lib/utils/quarantine';
+export * from './lib/utils/suppression';
+export * from './lib/utils/tracer';
 export * from './lib/utils/transform';
 
 import type * as vscode from 'vscode-languageserver-protocol';
@@ -1,4 +1,4 @@
-import { CodeInformation, CodeRangeKey, FileRegistry, LinkedCodeMap, Mapping, SourceMap, VirtualCode, translateOffset } from '@volar/language-core';
+import type { CodeInformation, CodeRangeKey, FileRegistry, LinkedCodeMap, SourceMap, VirtualCode } from '@volar/language-core';
 import type * as ts from 'typescript';
 import type * as vscode from 'vscode-languageserver-protocol';
 import { TextDocument } from 'vscode-languageserver-textdocument';
@@ -15,26 +15,31 @@ export class SourceMapWithDocuments<Data = any> {
 
 	// Range APIs
 
-	public getSourceRange(range: vscode.Range, filter: (data: Data) => boolean = () => true) {
-		for (const result of this.getSourceRanges(range, filter)) {
+	/**
+	 * If the range spans multiple mappings, the mapped start and end are joined when both of them are mapped.
+	 * @param joinPartial Also join the first and last mapped segments when the start or end is not mapped.
+	 * Only use it for ranges that are displayed, text edits applied to a clipped range would replace the wrong text.
+	 */
+	public getSourceRange(range: vscode.Range, filter: (data: Data) => boolean = () => true, joinPartial = false) {
+		for (const result of this.getSourceRanges(range, filter, joinPartial)) {
 			return result;
 		}
 	}
 
-	public getGeneratedRange(range: vscode.Range, filter: (data: Data) => boolean = () => true) {
-		for (const result of this.getGeneratedRanges(range, filter)) {
+	public getGeneratedRange(range: vscode.Range, filter: (data: Data) => boolean = () => true, joinPartial = false) {
+		for (const result of this.getGeneratedRanges(range, filter, joinPartial)) {
 			return result;
 		}
 	}
 
-	public * getSourceRanges(range: vscode.Range, filter: (data: Data) => boolean = () => true) {
-		for (const result of this.findRanges(range, filter, 'getSourcePositionsBase', 'matchSourcePosition')) {
+	public * getSourceRanges(range: vscode.Range, filter: (data: Data) => boolean = () => true, joinPartial = false) {
+		for (const result of this.findRanges(range, filter, this.virtualFileDocument, this.sourceFileDocument, 'generatedOffsets', 'sourceOffsets', joinPartial)) {
 			yield result;
 		}
 	}
 
-	public * getGeneratedRanges(range: vscode.Range, filter: (data: Data) => boolean = () => true) {
-		for (const result of this.findRanges(range, filter, 'getGeneratedPositionsBase', 'matchGeneratedPosition')) {
+	public * getGeneratedRanges(range: vscode.Range, filter: (data: Data) => boolean = () => true, joinPartial = false) {
+		for (const result of this.findRanges(range, filter, this.sourceFileDocument, this.virtualFileDocument, 'sourceOffsets', 'generatedOffsets', joinPartial)) {
 			yield result;
 		}
 	}
@@ -42,22 +47,41 @@ export class SourceMapWithDocuments<Data = any> {
 	protected * findRanges(
 		range: vscode.Range,
 		filter: (data: Data) => boolean,
-		api: 'getSourcePositionsBase' | 'getGeneratedPositionsBase',
-		api2: 'matchSourcePosition' | 'matchGeneratedPosition'
+		fromDoc: TextDocument,
+		toDoc: TextDocument,
+		from: CodeRangeKey,
+		to: CodeRangeKey,
+		joinPartial: boolean,
 	) {
-		const failedLookUps: (readonly [vscode.Position, Mapping<Data>])[] = [];
-		for (const mapped of this[api](range.start, filter)) {
-			const end = this[api2](range.end, mapped[1]);
-			if (end) {
-				yield { start: mapped[0], end } as vscode.Range;
+		const partialResults: (readonly [number, number])[] = [];
+		let found = false;
+		for (const [start, end, , isPartial] of this.map.findMatchingRanges(fromDoc.offsetAt(range.start), fromDoc.offsetAt(range.end), from, to, filter)) {
+			if (isPartial) {
+				partialResults.push([start, end]);
 			}
 			else {
-				failedLookUps.push(mapped);
+				found = true;
+				yield { start: toDoc.positionAt(start), end: toDoc.positionAt(end) } as vscode.Range;
 			}
 		}
-		for (const failedLookUp of failedLookUps) {
-			for (const mapped of this[api](range.end, filter)) {
-				yield { start: failedLookUp[0], end: mapped[0] } as vscode.Range;
+		if (!found && partialResults.length) {
+			// the range spans multiple mappings, join the mapped start and end
+			let start: vscode.Position | undefined;
+			let end: vscode.Position | undefined;
+			for (const mapped of this.findPositions(range.start, filter, fromDoc, toDoc, from, to)) {
+				start = mapped[0];
+				break;
+			}
+			for (const mapped of this.findPositions(range.end, filter, fromDoc, toDoc, from, to)) {
+				end = mapped[0];
+				break;
+			}
+			if (joinPartial) {
+				start ??= toDoc.positionAt(partialResults[0][0]);
+				end ??= toDoc.positionAt(partialResults[partialResults.length - 1][1]);
+			}
+			if (start && end && toDoc.offsetAt(start) <= toDoc.offsetAt(end)) {
+				yield { start, end } as vscode.Range;
 			}
 		}
 	}
@@ -115,20 +139,6 @@ export class SourceMapWithDocuments<Data = any> {
 			yield [toDoc.positionAt(mapped[0]), mapped[1]] as const;
 		}
 	}
-
-	protected matchSourcePosition(position: vscode.Position, mapping: Mapping) {
-		let offset = translateOffset(this.virtualFileDocument.offsetAt(position), mapping.generatedOffsets, mapping.sourceOffsets, mapping.lengths);
-		if (offset !== undefined) {
-			return this.sourceFileDocument.positionAt(offset);
-		}
-	}
-
-	protected matchGeneratedPosition(position: vscode.Position, mapping: Mapping) {
-		let offset = translateOffset(this.sourceFileDocument.offsetAt(position), mapping.sourceOffsets, mapping.generatedOffsets, mapping.lengths);
-		if (offset !== undefined) {
-			return this.virtualFileDocument.positionAt(offset);
-		}
-	}
 }
 
 export class LinkedCodeMapWithDocument extends SourceMapWithDocuments {
@@ -0,0 +1,21 @@
+import type * as vscode from 'vscode-languageserver-protocol';
+import type { ServiceContext } from '../types';
+import { NoneCancellationToken } from '../utils/cancellation';
+
+export function register(context: ServiceContext) {
+
+	return async (command: string, args: any[] = [], token: vscode.CancellationToken = NoneCancellationToken) => {
+
+		for (const service of context.services) {
+
+			if (context.disabledServicePlugins.has(service[1])) {
+				continue;
+			}
+			if (!service[0].commands?.includes(command) || !service[1].executeCommand) {
+				continue;
+			}
+
+			return await service[1].executeCommand(command, args, token);
+		}
+	};
+}
@@ -11,6 +11,7 @@ export function register(context: ServiceContext) {
 		return languageFeatureWorker(
 			context,
 			uri,
+			'provideAutoInsertionEdit',
 			() => ({ position, lastChange }),
 			function* (map) {
 				for (const mappedPosition of map.getGeneratedPositions(position, isAutoInsertEnabled)) {
@@ -22,6 +22,7 @@ export function register(context: ServiceContext) {
 			return languageFeatureWorker(
 				context,
 				uri,
+				'provideCallHierarchyItems',
 				() => position,
 				map => map.getGeneratedPositions(position, data => isCallHierarchyEnabled(data)),
 				async (service, document, position, map) => {
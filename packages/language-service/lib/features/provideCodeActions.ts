@@ -4,8 +4,10 @@ import { NoneCancellationToken } from '../utils/cancellation';
 import { getOverlapRange, notEmpty } from '../utils/common';
 import * as dedupe from '../utils/dedupe';
 import { languageFeatureWorker } from '../utils/featureWorkers';
+import { createSuppressionCodeAction } from '../utils/suppression';
 import { transformLocations, transformWorkspaceEdit } from '../utils/transform';
 import type { ServiceDiagnosticData } from './provideDiagnostics';
+import * as sourceCodeActions from './provideSourceCodeActions';
 import { isCodeActionsEnabled } from '@volar/language-core';
 
 export interface ServiceCodeActionData {
@@ -15,7 +17,9 @@ export interface ServiceCodeActionData {
 	serviceIndex: number;
 }
 
-export function register(context: ServiceContext) {
+export function register(context: ServiceContext, getReportedErrors: (uri: string) => vscode.Diagnostic[] | undefined) {
+
+	const provideSourceCodeActions = sourceCodeActions.register(context);
 
 	return async (uri: string, range: vscode.Range, codeActionContext: vscode.CodeActionContext, token = NoneCancellationToken) => {
 
@@ -24,6 +28,20 @@ export function register(context: ServiceContext) {
 			return;
 		}
 
+		if (codeActionContext.only && sourceCodeActions.isAggregatedSourceKinds(codeActionContext.only)) {
+			return await provideSourceCodeActions(uri, codeActionContext.only, token);
+		}
+
+		// errors of unchanged diagnostic reports have the data of an older document version
+		codeActionContext = {
+			...codeActionContext,
+			diagnostics: codeActionContext.diagnostics.map(diagnostic => {
+				const reportedError = getReportedErrors(uri)?.find(error => isSameDiagnostic(error, diagnostic));
+				return reportedError ? { ...diagnostic, data: reportedError.data } : diagnostic;
+			}),
+		};
+
+		const { generated } = sourceFile;
 		const document = context.documents.get(uri, sourceFile.languageId, sourceFile.snapshot);
 		const offsetRange = {
 			start: document.offsetAt(range.start),
@@ -31,9 +49,10 @@ export function register(context: ServiceContext) {
 		};
 		const transformedCodeActions = new WeakSet<vscode.CodeAction>();
 
-		return await languageFeatureWorker(
+		const codeActions = await languageFeatureWorker(
 			context,
 			uri,
+			'provideCodeActions',
 			() => ({ range, codeActionContext }),
 			function* (map) {
 				if (map.map.mappings.some(mapping => isCodeActionsEnabled(mapping.data))) {
@@ -41,7 +60,7 @@ export function register(context: ServiceContext) {
 					const _codeActionContext: vscode.CodeActionContext = {
 						diagnostics: transformLocations(
 							codeActionContext.diagnostics,
-							range => map.getGeneratedRange(range),
+							range => map.getGeneratedRange(range, undefined, true),
 						),
 						only: codeActionContext.only,
 					};
@@ -150,5 +169,56 @@ export function register(context: ServiceContext) {
 				.filter(notEmpty),
 			arr => dedupe.withCodeAction(arr.flat()),
 		);
+
+		if (
+			context.env.diagnosticSuppression && context.env.diagnosticSuppression.quickFix
+			&& (!codeActionContext.only || codeActionContext.only.some(kind => kind === 'quickfix' || kind.startsWith('quickfix.')))
+		) {
+			const suppressionCodeActions = getSuppressionCodeActions();
+			if (suppressionCodeActions.length) {
+				return [...codeActions ?? [], ...suppressionCodeActions];
+			}
+		}
+
+		return codeActions;
+
+		function getSuppressionCodeActions() {
+
+			const result: vscode.CodeAction[] = [];
+			const added = new Set<string>();
+
+			for (const diagnostic of codeActionContext.diagnostics) {
+				const key = diagnostic.range.start.line + ':' + diagnostic.code;
+				if (added.has(key)) {
+					continue;
+				}
+				const languageId = generated?.languagePlugin.getLanguageIdAtOffset?.(
+					generated.code,
+					document.offsetAt(diagnostic.range.start),
+				) ?? document.languageId;
+				const codeAction = createSuppressionCodeAction(
+					document,
+					diagnostic,
+					languageId,
+					context.env.diagnosticSuppression,
+				);
+				if (codeAction) {
+					result.push(codeAction);
+					added.add(key);
+				}
+			}
+
+			return result;
+		}
 	};
 }
+
+function isSameDiagnostic(a: vscode.Diagnostic, b: vscode.Diagnostic) {
+	return a.range.start.line === b.range.start.line
+		&& a.range.start.character === b.range.start.character
+		&& a.range.end.line === b.range.end.line
+		&& a.range.end.character === b.range.end.character
+		&& a.message === b.message
+		&& a.code === b.code
+		&& a.source === b.source;
+}
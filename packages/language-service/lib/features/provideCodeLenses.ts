@@ -27,6 +27,7 @@ export function register(context: ServiceContext) {
 		return await documentFeatureWorker(
 			context,
 			uri,
+			'provideCodeLenses',
 			map => map.map.mappings.some(mapping => isCodeLensEnabled(mapping.data)),
 			async (service, document) => {
 				if (token.isCancellationRequested) {
@@ -12,6 +12,7 @@ export function register(context: ServiceContext) {
 		return languageFeatureWorker(
 			context,
 			uri,
+			'provideColorPresentations',
 			() => range,
 			function* (map) {
 				for (const mappedRange of map.getGeneratedRanges(range, isColorEnabled)) {
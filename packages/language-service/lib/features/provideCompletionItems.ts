@@ -1,9 +1,10 @@
 import { isCompletionEnabled, type CodeInformation } from '@volar/language-core';
 import type * as vscode from 'vscode-languageserver-protocol';
-import type { ServiceContext, ServicePluginInstance } from '../types';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { ServiceContext, ServicePlugin, ServicePluginInstance } from '../types';
 import { NoneCancellationToken } from '../utils/cancellation';
 import { transformCompletionList } from '../utils/transform';
-import { visitEmbedded } from '../utils/featureWorkers';
+import { safeCall, visitEmbedded } from '../utils/featureWorkers';
 
 export interface ServiceCompletionData {
 	uri: string;
@@ -43,7 +44,7 @@ export function register(context: ServiceContext) {
 
 			for (const cacheData of cache.data) {
 
-				if (!cacheData.list.isIncomplete) {
+				if (!cacheData.list.isIncomplete || context.disabledServicePlugins.has(cacheData.service)) {
 					continue;
 				}
 
@@ -62,7 +63,7 @@ export function register(context: ServiceContext) {
 								continue;
 							}
 
-							const embeddedCompletionList = await cacheData.service.provideCompletionItems(map.virtualFileDocument, mapped, completionContext, token);
+							const embeddedCompletionList = await provideCompletionItems(context.services[cacheData.serviceIndex], map.virtualFileDocument, mapped);
 
 							if (!embeddedCompletionList) {
 								cacheData.list.isIncomplete = false;
@@ -94,7 +95,7 @@ export function register(context: ServiceContext) {
 					}
 
 					const document = context.documents.get(uri, sourceFile.languageId, sourceFile.snapshot);
-					const completionList = await cacheData.service.provideCompletionItems(document, position, completionContext, token);
+					const completionList = await provideCompletionItems(context.services[cacheData.serviceIndex], document, position);
 
 					if (!completionList) {
 						cacheData.list.isIncomplete = false;
@@ -164,7 +165,7 @@ export function register(context: ServiceContext) {
 
 							const isAdditional = _data && typeof _data.completion === 'object' && _data.completion.isAdditional || service[1].isAdditionalCompletion;
 
-							if (cache!.mainCompletion && (!isAdditional || cache?.mainCompletion.documentUri !== map.virtualFileDocument.uri)) {
+							if (cache!.mainCompletion && service[0].completionPriority === undefined && (!isAdditional || cache?.mainCompletion.documentUri !== map.virtualFileDocument.uri)) {
 								continue;
 							}
 
@@ -173,9 +174,10 @@ export function register(context: ServiceContext) {
 								continue;
 							}
 
-							const embeddedCompletionList = await service[1].provideCompletionItems(map.virtualFileDocument, mapped, completionContext, token);
+							const embeddedCompletionList = await provideCompletionItems(service, map.virtualFileDocument, mapped);
 
-							if (!embeddedCompletionList || !embeddedCompletionList.items.length) {
+							// keep empty incomplete lists of plugins exceeding the time budget, so they are requested again
+							if (!embeddedCompletionList || (!embeddedCompletionList.items.length && !embeddedCompletionList.isIncomplete)) {
 								continue;
 							}
 
@@ -183,7 +185,7 @@ export function register(context: ServiceContext) {
 								embeddedCompletionList.items = embeddedCompletionList.items.filter(item => !!item.labelDetails);
 							}
 
-							if (!isAdditional) {
+							if (!isAdditional && service[0].completionPriority === undefined && embeddedCompletionList.items.length) {
 								cache!.mainCompletion = { documentUri: map.virtualFileDocument.uri };
 							}
 
@@ -243,7 +245,7 @@ export function register(context: ServiceContext) {
 						continue;
 					}
 
-					if (cache.mainCompletion && (!service[1].isAdditionalCompletion || cache.mainCompletion.documentUri !== document.uri)) {
+					if (cache.mainCompletion && service[0].completionPriority === undefined && (!service[1].isAdditionalCompletion || cache.mainCompletion.documentUri !== document.uri)) {
 						continue;
 					}
 
@@ -252,13 +254,13 @@ export function register(context: ServiceContext) {
 						continue;
 					}
 
-					const completionList = await service[1].provideCompletionItems(document, position, completionContext, token);
+					const completionList = await provideCompletionItems(service, document, position);
 
-					if (!completionList || !completionList.items.length) {
+					if (!completionList || (!completionList.items.length && !completionList.isIncomplete)) {
 						continue;
 					}
 
-					if (!service[1].isAdditionalCompletion) {
+					if (!service[1].isAdditionalCompletion && service[0].completionPriority === undefined && completionList.items.length) {
 						cache.mainCompletion = { documentUri: document.uri };
 					}
 
@@ -285,18 +287,60 @@ export function register(context: ServiceContext) {
 			}
 		}
 
-		return combineCompletionList(cache.data.map(cacheData => cacheData.list));
+		return combineCompletionList(cache.data);
 
 		function sortServices(a: ServicePluginInstance, b: ServicePluginInstance) {
 			return (b.isAdditionalCompletion ? -1 : 1) - (a.isAdditionalCompletion ? -1 : 1);
 		}
 
-		function combineCompletionList(lists: vscode.CompletionList[]): vscode.CompletionList {
+		function combineCompletionList(data: NonNullable<typeof cache>['data']): vscode.CompletionList {
+			const lists = data.map(data => data.list);
+			const priorities = data.map(data => context.services[data.serviceIndex][0].completionPriority);
 			return {
 				isIncomplete: lists.some(list => list.isIncomplete),
 				itemDefaults: lists.find(list => list.itemDefaults)?.itemDefaults,
-				items: lists.map(list => list.items).flat(),
+				items: priorities.some(priority => priority !== undefined)
+					? mergeRankedItems(lists, priorities.map(priority => priority ?? 0))
+					: lists.map(list => list.items).flat(),
 			};
 		}
+
+		function provideCompletionItems(service: [ServicePlugin, ServicePluginInstance], document: TextDocument, position: vscode.Position) {
+			const serviceId = String(context.services.indexOf(service));
+			return safeCall(
+				() => service[1].provideCompletionItems!(document, position, completionContext, token),
+				'service ' + serviceId + ' crashed on ' + document.uri,
+				err => context.quarantine.recordCrash(context, service, serviceId, 'provideCompletionItems', uri, err),
+			);
+		}
 	};
 }
+
+/**
+ * Merge completion items by the priority of their lists, items with the same label and kind are taken from the higher priority list,
+ * and `sortText` is prefixed with the priority rank so higher priority items sort first.
+ */
+export function mergeRankedItems(lists: vscode.CompletionList[], priorities: number[]) {
+
+	const ranks = [...new Set(priorities)].sort((a, b) => b - a);
+	const order = lists.map((_, i) => i).sort((a, b) => priorities[b] - priorities[a]);
+	const keys = new Set<string>();
+	const items: vscode.CompletionItem[] = [];
+
+	for (const i of order) {
+		const rank = ranks.indexOf(priorities[i]).toString().padStart(2, '0');
+		for (const item of lists[i].items) {
+			const key = item.label + '\0' + (item.kind ?? '');
+			if (keys.has(key)) {
+				continue;
+			}
+			keys.add(key);
+			items.push({
+				...item,
+				sortText: rank + (item.sortText ?? item.label),
+			});
+		}
+	}
+
+	return items;
+}
@@ -10,7 +10,7 @@ import { languageFeatureWorker } from '../utils/featureWorkers';
 
 export function register(
 	context: ServiceContext,
-	apiName: 'provideDefinition' | 'provideTypeDefinition' | 'provideImplementation',
+	apiName: 'provideDefinition' | 'provideTypeDefinition' | 'provideImplementation' | 'provideDeclaration',
 	isValidPosition: (data: CodeInformation) => boolean
 ) {
 
@@ -19,6 +19,7 @@ export function register(
 		return languageFeatureWorker(
 			context,
 			uri,
+			apiName,
 			() => position,
 			map => map.getGeneratedPositions(position, isValidPosition),
 			async (service, document, position) => {
@@ -8,6 +8,7 @@ import { NoneCancellationToken } from '../utils/cancellation';
 import { sleep } from '../utils/common';
 import * as dedupe from '../utils/dedupe';
 import { documentFeatureWorker } from '../utils/featureWorkers';
+import { filterSuppressedDiagnostics } from '../utils/suppression';
 
 export function updateRange(
 	range: vscode.Range,
@@ -139,18 +140,54 @@ export function register(context: ServiceContext) {
 		semantic: new Map() as CacheMap,
 		syntactic: new Map() as CacheMap,
 	};
+	const resultIds = new Map<string, {
+		resultId: string;
+		errorsKey: string;
+	}>();
+	/**
+	 * Last reported errors of each document, used to refresh the data of errors that the client kept from an unchanged report.
+	 */
+	const reportedErrors = new Map<string, vscode.Diagnostic[]>();
+
+	let lastResultId = 0;
 
 	context.env.onDidChangeConfiguration?.(() => {
 		lastResponses.clear();
 		cacheMaps.semantic.clear();
 		cacheMaps.syntactic.clear();
+		resultIds.clear();
+		reportedErrors.clear();
 	});
 
-	return async (
+	return {
+		doValidation,
+		/**
+		 * Returns the result id of the last validation of `uri`,
+		 * which only changes if any service plugin reported different errors.
+		 */
+		getDiagnosticsResultId(uri: string) {
+			return resultIds.get(uri)?.resultId;
+		},
+		getReportedErrors(uri: string) {
+			return reportedErrors.get(uri);
+		},
+		/**
+		 * Drop the last reported errors of a closed document.
+		 */
+		clearReportedErrors(uri: string) {
+			reportedErrors.delete(uri);
+		},
+	};
+
+	/**
+	 * @param mode Only run the syntactic or semantic pass, errors of the other pass are taken from the last result.
+	 */
+	async function doValidation(
 		uri: string,
 		token = NoneCancellationToken,
 		response?: (result: vscode.Diagnostic[]) => void,
-	) => {
+		mode: 'all' | 'syntactic' | 'semantic' = 'all',
+	) {
 
 		const sourceFile = context.language.files.get(uri);
 		if (!sourceFile) {
@@ -193,11 +230,26 @@ export function register(context: ServiceContext) {
 			}
 		}
 
-		await worker('provideDiagnostics', cacheMaps.syntactic, lastResponse.syntactic);
-		await doResponse();
-		await worker('provideSemanticDiagnostics', cacheMaps.semantic, lastResponse.semantic);
+		if (mode !== 'semantic') {
+			await worker('provideDiagnostics', cacheMaps.syntactic, lastResponse.syntactic);
+			await doResponse();
+		}
+		if (mode !== 'syntactic') {
+			await worker('provideSemanticDiagnostics', cacheMaps.semantic, lastResponse.semantic);
+		}
 
-		return await collectErrors();
+		const errors = await collectErrors();
+		// the data of errors changes with the virtual document version, compare the reported part only
+		const errorsKey = JSON.stringify(errors.map(({ data: _data, ...error }) => error));
+
+		if (resultIds.get(uri)?.errorsKey !== errorsKey) {
+			resultIds.set(uri, {
+				resultId: (++lastResultId).toString(),
+				errorsKey,
+			});
+		}
+
+		return errors;
 
 		async function doResponse() {
 			if (errorsUpdated && !updateCacheRangeFailed) {
@@ -207,7 +259,12 @@ export function register(context: ServiceContext) {
 		}
 
 		async function collectErrors() {
-			const errors = Object.values(lastResponse).flatMap(({ errors }) => errors);
+			const errors = filterSuppressedDiagnostics(
+				document,
+				Object.values(lastResponse).flatMap(({ errors }) => errors),
+				context.env.diagnosticSuppression,
+			);
+			reportedErrors.set(uri, errors);
 			errorMarkups[uri] = [];
 			for (const error of errors) {
 				for (const service of context.services) {
@@ -231,6 +288,7 @@ export function register(context: ServiceContext) {
 			const result = await documentFeatureWorker(
 				context,
 				uri,
+				api,
 				map => map.map.mappings.some(mapping => isDiagnosticsEnabled(mapping.data)),
 				async (service, document) => {
 
@@ -286,7 +344,7 @@ export function register(context: ServiceContext) {
 				cache.snapshot = sourceFile?.snapshot;
 			}
 		}
-	};
+	}
 
 	function transformErrorRangeBase(errors: vscode.Diagnostic[], map: SourceMapWithDocuments<CodeInformation> | undefined, filter: (data: CodeInformation) => boolean) {
 
@@ -298,7 +356,7 @@ export function register(context: ServiceContext) {
 			let _error: vscode.Diagnostic = { ...error };
 
 			if (map) {
-				const range = map.getSourceRange(error.range, filter);
+				const range = map.getSourceRange(error.range, filter, true);
 				if (!range) {
 					continue;
 				}
@@ -315,7 +373,7 @@ export function register(context: ServiceContext) {
 
 					if (virtualCode) {
 						for (const map of context.documents.getMaps(virtualCode)) {
-							const range = map.getSourceRange(info.location.range, filter);
+							const range = map.getSourceRange(info.location.range, filter, true);
 							if (range) {
 								relatedInfos.push({
 									location: {
@@ -12,6 +12,7 @@ export function register(context: ServiceContext) {
 		return documentFeatureWorker(
 			context,
 			uri,
+			'provideDocumentColors',
 			map => map.map.mappings.some(mapping => isColorEnabled(mapping.data)),
 			(service, document) => {
 				if (token.isCancellationRequested) {
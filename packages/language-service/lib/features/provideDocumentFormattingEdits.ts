@@ -1,17 +1,14 @@
-import { SourceMap, VirtualCode, forEachEmbeddedCode, isFormattingEnabled, resolveCommonLanguageId, updateVirtualCodeMaps } from '@volar/language-core';
-import type * as ts from 'typescript';
+import { SourceMap, VirtualCode, forEachEmbeddedCode, isFormattingEnabled } from '@volar/language-core';
 import type * as vscode from 'vscode-languageserver-protocol';
-import { TextDocument } from 'vscode-languageserver-textdocument';
-import { SourceMapWithDocuments } from '../documents';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
 import type { ServiceContext, ServicePluginInstance } from '../types';
 import { NoneCancellationToken } from '../utils/cancellation';
 import { isInsideRange, stringToSnapshot } from '../utils/common';
+import { applyEdits, createDocMap } from '../utils/editedDocuments';
 import { getEmbeddedFilesByLevel as getEmbeddedCodesByLevel } from '../utils/featureWorkers';
 
 export function register(context: ServiceContext) {
 
-	let fakeVersion = 0;
-
 	return async (
 		uri: string,
 		options: vscode.FormattingOptions,
@@ -77,7 +74,7 @@ export function register(context: ServiceContext) {
 					continue;
 				}
 
-				const docMap = createDocMap(code, uri, sourceFile.languageId, tempSourceSnapshot);
+				const docMap = createDocMap(context, code, uri, sourceFile.languageId, tempSourceSnapshot);
 				if (!docMap) {
 					continue;
 				}
@@ -127,9 +124,8 @@ export function register(context: ServiceContext) {
 			edits = edits.filter(edit => isInsideRange(range!, edit.range));
 
 			if (edits.length > 0) {
-				const newText = TextDocument.applyEdits(document, edits);
-				document = TextDocument.create(document.uri, document.languageId, document.version + 1, newText);
-				tempSourceSnapshot = stringToSnapshot(newText);
+				document = applyEdits(document, edits);
+				tempSourceSnapshot = stringToSnapshot(document.getText());
 				tempVirtualFile = sourceFile.generated.languagePlugin.updateVirtualCode(uri, tempVirtualFile, tempSourceSnapshot, context.language.files);
 			}
 
@@ -155,7 +151,7 @@ export function register(context: ServiceContext) {
 							break;
 						}
 					}
-					const docMap = createDocMap(virtualCode, uri, sourceFile.languageId, tempSourceSnapshot);
+					const docMap = createDocMap(context, virtualCode, uri, sourceFile.languageId, tempSourceSnapshot);
 					if (!docMap) {
 						continue;
 					}
@@ -204,9 +200,8 @@ export function register(context: ServiceContext) {
 					});
 
 					if (indentEdits.length > 0) {
-						const newText = TextDocument.applyEdits(document, indentEdits);
-						document = TextDocument.create(document.uri, document.languageId, document.version + 1, newText);
-						tempSourceSnapshot = stringToSnapshot(newText);
+						document = applyEdits(document, indentEdits);
+						tempSourceSnapshot = stringToSnapshot(document.getText());
 						tempVirtualFile = sourceFile.generated.languagePlugin.updateVirtualCode(uri, tempVirtualFile, tempSourceSnapshot, context.language.files);
 					}
 				}
@@ -272,33 +267,6 @@ export function register(context: ServiceContext) {
 			}
 		}
 	};
-
-	function createDocMap(file: VirtualCode, sourceFileUri: string, sourceLanguageId: string, _sourceSnapshot: ts.IScriptSnapshot) {
-		const maps = updateVirtualCodeMaps(file, sourceFileUri2 => {
-			if (!sourceFileUri2) {
-				return [sourceFileUri, _sourceSnapshot];
-			}
-		});
-		if (maps.has(sourceFileUri) && maps.get(sourceFileUri)![0] === _sourceSnapshot) {
-			const map = maps.get(sourceFileUri)!;
-			const version = fakeVersion++;
-			return new SourceMapWithDocuments(
-				TextDocument.create(
-					sourceFileUri,
-					sourceLanguageId ?? resolveCommonLanguageId(sourceFileUri),
-					version,
-					_sourceSnapshot.getText(0, _sourceSnapshot.getLength())
-				),
-				TextDocument.create(
-					context.documents.getVirtualCodeUri(sourceFileUri, file.id),
-					file.languageId,
-					version,
-					file.snapshot.getText(0, file.snapshot.getLength())
-				),
-				map[1],
-			);
-		}
-	}
 }
 
 function patchIndents(document: TextDocument, isCodeBlock: boolean, map: SourceMap, initialIndent: string) {
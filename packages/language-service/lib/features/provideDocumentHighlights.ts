@@ -14,6 +14,7 @@ export function register(context: ServiceContext) {
 		return languageFeatureWorker(
 			context,
 			uri,
+			'provideDocumentHighlights',
 			() => position,
 			map => map.getGeneratedPositions(position, isHighlightEnabled),
 			async (service, document, position) => {
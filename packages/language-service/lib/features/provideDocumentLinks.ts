@@ -19,6 +19,7 @@ export function register(context: ServiceContext) {
 		return await documentFeatureWorker(
 			context,
 			uri,
+			'provideDocumentLinks',
 			map => map.map.mappings.some(mapping => isDocumentLinkEnabled(mapping.data)),
 			async (service, document) => {
 
@@ -0,0 +1,43 @@
+import type * as vscode from 'vscode-languageserver-protocol';
+import type { ServiceContext, DataTransferItem } from '../types';
+import { languageFeatureWorker } from '../utils/featureWorkers';
+import { NoneCancellationToken } from '../utils/cancellation';
+import { transformWorkspaceEdit } from '../utils/transform';
+import { notEmpty } from '../utils/common';
+
+export function register(context: ServiceContext) {
+
+	return (uri: string, ranges: vscode.Range[], dataTransfer: Map<string, DataTransferItem>, token = NoneCancellationToken) => {
+
+		return languageFeatureWorker(
+			context,
+			uri,
+			'provideDocumentPasteEdits',
+			() => ranges,
+			function* (map) {
+				const mappedRanges = ranges
+					.map(range => map.getGeneratedRange(range))
+					.filter(notEmpty);
+				if (mappedRanges.length === ranges.length) {
+					yield mappedRanges;
+				}
+			},
+			(service, document, arg) => {
+				if (token.isCancellationRequested) {
+					return;
+				}
+				return service[1].provideDocumentPasteEdits?.(document, arg, dataTransfer, token);
+			},
+			edit => {
+				if (edit.additionalEdit) {
+					edit.additionalEdit = transformWorkspaceEdit(
+						edit.additionalEdit,
+						context,
+						undefined,
+					);
+				}
+				return edit;
+			},
+		);
+	};
+}
@@ -8,13 +8,71 @@ import { isSemanticTokensEnabled } from '@volar/language-core';
 
 export function register(context: ServiceContext) {
 
-	return async (
+	/**
+	 * Last full tokens result of each document, to compute delta from
+	 */
+	const resultCache = new Map<string, vscode.SemanticTokens>();
+
+	return {
+
+		async getSemanticTokens(
+			uri: string,
+			range: vscode.Range | undefined,
+			legend: vscode.SemanticTokensLegend,
+			token = NoneCancellationToken,
+			_reportProgress?: (tokens: vscode.SemanticTokens) => void, // TODO
+		): Promise<vscode.SemanticTokens | undefined> {
+
+			const builder = await getTokensBuilder(uri, range, legend, token);
+			if (!builder) {
+				resultCache.delete(uri);
+				return;
+			}
+
+			const result = builder.build();
+			if (!range) {
+				resultCache.set(uri, result);
+			}
+			return result;
+		},
+
+		async getSemanticTokensDelta(
+			uri: string,
+			previousResultId: string,
+			legend: vscode.SemanticTokensLegend,
+			token = NoneCancellationToken,
+		): Promise<vscode.SemanticTokens | vscode.SemanticTokensDelta | undefined> {
+
+			const previousResult = resultCache.get(uri);
+			const builder = await getTokensBuilder(uri, undefined, legend, token);
+			if (!builder) {
+				resultCache.delete(uri);
+				return;
+			}
+
+			const result = builder.build();
+			resultCache.set(uri, result);
+
+			if (previousResult?.resultId === previousResultId) {
+				return builder.buildEdits(previousResult.data);
+			}
+			return result;
+		},
+
+		/**
+		 * Drop the last full tokens result of a closed document.
+		 */
+		clearSemanticTokensCache(uri: string) {
+			resultCache.delete(uri);
+		},
+	};
+
+	async function getTokensBuilder(
 		uri: string,
 		range: vscode.Range | undefined,
 		legend: vscode.SemanticTokensLegend,
-		token = NoneCancellationToken,
-		_reportProgress?: (tokens: vscode.SemanticTokens) => void, // TODO
-	): Promise<vscode.SemanticTokens | undefined> => {
+		token: vscode.CancellationToken,
+	) {
 
 		const sourceFile = context.language.files.get(uri);
 		if (!sourceFile) {
@@ -32,6 +90,7 @@ export function register(context: ServiceContext) {
 		const tokens = await languageFeatureWorker(
 			context,
 			uri,
+			'provideDocumentSemanticTokens',
 			() => range!,
 			function* (map) {
 
@@ -94,8 +153,8 @@ export function register(context: ServiceContext) {
 						const range = map.getSourceRange({
 							start: { line: _token[0], character: _token[1] },
 							end: { line: _token[0], character: _token[1] + _token[2] },
-						}, isSemanticTokensEnabled);
-						if (range) {
+						}, isSemanticTokensEnabled, true);
+						if (range && range.start.line === range.end.line) {
 							return [range.start.line, range.start.character, range.end.character - range.start.character, _token[3], _token[4]];
 						}
 					})
@@ -105,16 +164,16 @@ export function register(context: ServiceContext) {
 			// tokens => reportProgress?.(buildTokens(tokens)), // TODO: this has no effect with LSP
 		);
 		if (tokens) {
-			return buildTokens(tokens);
+			return createBuilder(tokens);
 		}
-	};
+	}
 }
 
-function buildTokens(tokens: SemanticToken[]) {
+function createBuilder(tokens: SemanticToken[]) {
 	const builder = new SemanticTokensBuilder();
 	const sortedTokens = tokens.sort((a, b) => a[0] - b[0] === 0 ? a[1] - b[1] : a[0] - b[0]);
 	for (const token of sortedTokens) {
 		builder.push(...token);
 	}
-	return builder.build();
+	return builder;
 }
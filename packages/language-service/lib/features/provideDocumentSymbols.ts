@@ -13,6 +13,7 @@ export function register(context: ServiceContext) {
 		return documentFeatureWorker(
 			context,
 			uri,
+			'provideDocumentSymbols',
 			map => map.map.mappings.some(mapping => isSymbolsEnabled(mapping.data)),
 			async (service, document) => {
 				if (token.isCancellationRequested) {
@@ -31,26 +32,64 @@ export function register(context: ServiceContext) {
 					))
 					.filter(notEmpty);
 			},
-			results => {
-				for (let i = 0; i < results.length; i++) {
-					for (let j = 0; j < results.length; j++) {
-						if (i === j) {
-							continue;
-						}
-						results[i] = results[i].filter(child => {
-							for (const parent of results[j]) {
-								if (isInsideRange(parent.range, child.range)) {
-									parent.children ??= [];
-									parent.children.push(child);
-									return false;
-								}
-							}
-							return true;
-						});
-					}
-				}
-				return results.flat();
-			},
+			mergeDocumentSymbols,
 		);
 	};
 }
+
+/**
+ * Merge the symbols of all embedded codes and service plugins into one tree,
+ * a symbol is nested into the innermost symbol that contains its range, and symbols with the same name, kind and range are merged.
+ */
+export function mergeDocumentSymbols(results: vscode.DocumentSymbol[][]) {
+
+	const tree: vscode.DocumentSymbol[] = [];
+	const symbols = results
+		.flat()
+		.sort((a, b) => comparePosition(a.range.start, b.range.start) || comparePosition(b.range.end, a.range.end));
+
+	for (const symbol of symbols) {
+		insertSymbol(tree, symbol);
+	}
+
+	return sortSymbols(tree);
+}
+
+function insertSymbol(siblings: vscode.DocumentSymbol[], symbol: vscode.DocumentSymbol) {
+	for (const sibling of siblings) {
+		if (
+			sibling.name === symbol.name
+			&& sibling.kind === symbol.kind
+			&& comparePosition(sibling.range.start, symbol.range.start) === 0
+			&& comparePosition(sibling.range.end, symbol.range.end) === 0
+		) {
+			for (const child of symbol.children ?? []) {
+				sibling.children ??= [];
+				insertSymbol(sibling.children, child);
+			}
+			return;
+		}
+	}
+	for (const sibling of siblings) {
+		if (isInsideRange(sibling.range, symbol.range)) {
+			sibling.children ??= [];
+			insertSymbol(sibling.children, symbol);
+			return;
+		}
+	}
+	siblings.push(symbol);
+}
+
+function sortSymbols(symbols: vscode.DocumentSymbol[]) {
+	symbols.sort((a, b) => comparePosition(a.range.start, b.range.start));
+	for (const symbol of symbols) {
+		if (symbol.children) {
+			sortSymbols(symbol.children);
+		}
+	}
+	return symbols;
+}
+
+function comparePosition(a: vscode.Position, b: vscode.Position) {
+	return a.line - b.line || a.character - b.character;
+}
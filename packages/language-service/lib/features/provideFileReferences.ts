@@ -13,6 +13,7 @@ export function register(context: ServiceContext) {
 		return documentFeatureWorker(
 			context,
 			uri,
+			'provideFileReferences',
 			() => true,
 			async (service, document) => {
 				if (token.isCancellationRequested) {
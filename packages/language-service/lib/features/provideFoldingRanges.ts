@@ -13,6 +13,7 @@ export function register(context: ServiceContext) {
 		return documentFeatureWorker(
 			context,
 			uri,
+			'provideFoldingRanges',
 			map => map.map.mappings.some(mapping => isFoldingRangesEnabled(mapping.data)),
 			(service, document) => {
 				if (token.isCancellationRequested) {
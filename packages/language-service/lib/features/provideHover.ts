@@ -13,6 +13,7 @@ export function register(context: ServiceContext) {
 		let hover = await languageFeatureWorker(
 			context,
 			uri,
+			'provideHover',
 			() => position,
 			map => map.getGeneratedPositions(position, isHoverEnabled),
 			(service, document, position) => {
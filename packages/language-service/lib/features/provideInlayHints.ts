@@ -30,6 +30,7 @@ export function register(context: ServiceContext) {
 		return languageFeatureWorker(
 			context,
 			uri,
+			'provideInlayHints',
 			() => range,
 			function* (map) {
 
@@ -0,0 +1,102 @@
+import type * as vscode from 'vscode-languageserver-protocol';
+import type { ServiceContext } from '../types';
+import { getOverlapRange, notEmpty } from '../utils/common';
+import { languageFeatureWorker } from '../utils/featureWorkers';
+import { NoneCancellationToken } from '../utils/cancellation';
+import { isInlineValuesEnabled } from '@volar/language-core';
+
+export function register(context: ServiceContext) {
+
+	return async (uri: string, range: vscode.Range, inlineValueContext: vscode.InlineValueContext, token = NoneCancellationToken) => {
+
+		const sourceFile = context.language.files.get(uri);
+		if (!sourceFile) {
+			return;
+		}
+
+		const document = context.documents.get(uri, sourceFile.languageId, sourceFile.snapshot);
+		const offsetRange = {
+			start: document.offsetAt(range.start),
+			end: document.offsetAt(range.end),
+		};
+
+		return languageFeatureWorker(
+			context,
+			uri,
+			'provideInlineValues',
+			() => ({ range, inlineValueContext }),
+			function* (map) {
+
+				/**
+				 * copy from ./provideInlayHints.ts
+				 */
+
+				if (!map.map.mappings.some(mapping => isInlineValuesEnabled(mapping.data))) {
+					return;
+				}
+
+				const stoppedLocation = map.getGeneratedRange(inlineValueContext.stoppedLocation, isInlineValuesEnabled);
+				if (!stoppedLocation) {
+					return;
+				}
+
+				let minStart: number | undefined;
+				let maxEnd: number | undefined;
+
+				for (const mapping of map.map.mappings) {
+					const overlapRange = getOverlapRange(
+						offsetRange.start,
+						offsetRange.end,
+						mapping.sourceOffsets[0],
+						mapping.sourceOffsets[mapping.sourceOffsets.length - 1]
+						+ mapping.lengths[mapping.lengths.length - 1]
+					);
+					if (overlapRange) {
+						const start = map.map.getGeneratedOffset(overlapRange.start)?.[0];
+						const end = map.map.getGeneratedOffset(overlapRange.end)?.[0];
+						if (start !== undefined && end !== undefined) {
+							minStart = minStart === undefined ? start : Math.min(start, minStart);
+							maxEnd = maxEnd === undefined ? end : Math.max(end, maxEnd);
+						}
+					}
+				}
+
+				if (minStart !== undefined && maxEnd !== undefined) {
+					yield {
+						range: {
+							start: map.virtualFileDocument.positionAt(minStart),
+							end: map.virtualFileDocument.positionAt(maxEnd),
+						},
+						inlineValueContext: {
+							...inlineValueContext,
+							stoppedLocation,
+						},
+					};
+				}
+			},
+			(service, document, arg) => {
+				if (token.isCancellationRequested) {
+					return;
+				}
+				return service[1].provideInlineValues?.(document, arg.range, arg.inlineValueContext, token);
+			},
+			(inlineValues, map) => {
+				if (!map) {
+					return inlineValues;
+				}
+				return inlineValues
+					.map((inlineValue): vscode.InlineValue | undefined => {
+						const range = map.getSourceRange(inlineValue.range, isInlineValuesEnabled);
+						if (range) {
+							return {
+								...inlineValue,
+								range,
+							};
+						}
+					})
+					.filter(notEmpty);
+			},
+			arr => arr.flat(),
+		);
+	};
+}
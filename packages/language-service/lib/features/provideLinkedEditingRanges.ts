@@ -12,6 +12,7 @@ export function register(context: ServiceContext) {
 		return languageFeatureWorker(
 			context,
 			uri,
+			'provideLinkedEditingRanges',
 			() => position,
 			function* (map) {
 				for (const pos of map.getGeneratedPositions(position, isLinkedEditingEnabled)) {
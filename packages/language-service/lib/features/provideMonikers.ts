@@ -0,0 +1,28 @@
+import type * as vscode from 'vscode-languageserver-protocol';
+import type { ServiceContext } from '../types';
+import { languageFeatureWorker } from '../utils/featureWorkers';
+import { NoneCancellationToken } from '../utils/cancellation';
+import * as dedupe from '../utils/dedupe';
+import { isMonikerEnabled } from '@volar/language-core';
+
+export function register(context: ServiceContext) {
+
+	return (uri: string, position: vscode.Position, token = NoneCancellationToken) => {
+
+		return languageFeatureWorker(
+			context,
+			uri,
+			'provideMonikers',
+			() => position,
+			map => map.getGeneratedPositions(position, isMonikerEnabled),
+			(service, document, position) => {
+				if (token.isCancellationRequested) {
+					return;
+				}
+				return service[1].provideMonikers?.(document, position, token);
+			},
+			monikers => monikers,
+			arr => dedupe.withMonikers(arr.flat()),
+		);
+	};
+}
@@ -13,6 +13,7 @@ export function register(context: ServiceContext) {
 		return languageFeatureWorker(
 			context,
 			uri,
+			'provideReferences',
 			() => position,
 			map => map.getGeneratedPositions(position, isReferencesEnabled),
 			async (service, document, position) => {
@@ -14,6 +14,7 @@ export function register(context: ServiceContext) {
 		return languageFeatureWorker(
 			context,
 			uri,
+			'provideRenameEdits',
 			() => ({ position, newName }),
 			function* (map) {
 				let _data!: CodeInformation;
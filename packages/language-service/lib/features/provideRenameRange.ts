@@ -11,6 +11,7 @@ export function register(context: ServiceContext) {
 		return languageFeatureWorker(
 			context,
 			uri,
+			'provideRenameRange',
 			() => position,
 			map => map.getGeneratedPositions(position, isRenameEnabled),
 			(service, document, position) => {
@@ -13,6 +13,7 @@ export function register(context: ServiceContext) {
 		return languageFeatureWorker(
 			context,
 			uri,
+			'provideSelectionRanges',
 			() => positions,
 			function* (map) {
 				const result = positions
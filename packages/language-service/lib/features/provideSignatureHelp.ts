@@ -19,6 +19,7 @@ export function register(context: ServiceContext) {
 		return languageFeatureWorker(
 			context,
 			uri,
+			'provideSignatureHelp',
 			() => position,
 			map => map.getGeneratedPositions(position, isSignatureHelpEnabled),
 			(service, document, position) => {
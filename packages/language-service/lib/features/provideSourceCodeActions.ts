@@ -0,0 +1,195 @@
+import { forEachEmbeddedCode, isCodeActionsEnabled } from '@volar/language-core';
+import type * as vscode from 'vscode-languageserver-protocol';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { ServiceContext } from '../types';
+import { NoneCancellationToken } from '../utils/cancellation';
+import { stringToSnapshot } from '../utils/common';
+import { applyEdits, createDocMap } from '../utils/editedDocuments';
+
+const aggregatedKinds = ['source.fixAll', 'source.organizeImports'];
+
+/**
+ * Whether the code actions of `only` are aggregated into one code action per kind,
+ * which is true if all of the kinds are `source.fixAll` or `source.organizeImports`.
+ */
+export function isAggregatedSourceKinds(only: string[]) {
+	return only.length > 0 && only.every(kind => aggregatedKinds.some(aggregatedKind => isKindIncluded(kind, aggregatedKind)));
+}
+
+export function register(context: ServiceContext) {
+
+	/**
+	 * Collect the code actions of `kinds` from every service plugin and every embedded code,
+	 * the edits are applied one after another and merged into one code action per kind.
+	 */
+	return async (uri: string, kinds: string[], token = NoneCancellationToken) => {
+
+		const sourceFile = context.language.files.get(uri);
+		if (!sourceFile) {
+			return;
+		}
+
+		const originalDocument = context.documents.get(uri, sourceFile.languageId, sourceFile.snapshot);
+		const result: vscode.CodeAction[] = [];
+
+		for (const kind of kinds) {
+
+			let document = originalDocument;
+
+			if (!sourceFile.generated) {
+				for (const service of context.services) {
+					const [textEdits] = await tryProvideEdits(service, document, kind);
+					if (textEdits) {
+						document = applyEdits(document, textEdits);
+					}
+				}
+			}
+			else {
+
+				const languagePlugin = sourceFile.generated.languagePlugin;
+				const sourceLanguageId = sourceFile.languageId;
+
+				const virtualCode = languagePlugin.createVirtualCode(uri, sourceFile.languageId, sourceFile.snapshot, context.language.files);
+				if (!virtualCode) {
+					return result;
+				}
+
+				let tempSourceSnapshot = sourceFile.snapshot;
+				let tempVirtualFile = virtualCode;
+
+				const virtualCodeIds = [...forEachEmbeddedCode(tempVirtualFile)]
+					.filter(code => !context.disabledVirtualFileUris.has(context.documents.getVirtualCodeUri(uri, code.id)))
+					.map(code => code.id);
+
+				for (const virtualCodeId of virtualCodeIds) {
+					for (const service of context.services) {
+
+						const docMap = getDocMap(virtualCodeId);
+						if (!docMap) {
+							break;
+						}
+
+						const edits = await tryProvideEdits(service, docMap.virtualFileDocument, kind);
+
+						for (const textEdits of edits) {
+
+							const sourceEdits: vscode.TextEdit[] = [];
+
+							for (const textEdit of textEdits) {
+								const range = docMap.getSourceRange(textEdit.range, isCodeActionsEnabled);
+								if (!range) {
+									break;
+								}
+								sourceEdits.push({ ...textEdit, range });
+							}
+
+							// skip the code action if some of its edits are outside of the source document
+							if (sourceEdits.length !== textEdits.length) {
+								continue;
+							}
+
+							document = applyEdits(document, sourceEdits);
+							tempSourceSnapshot = stringToSnapshot(document.getText());
+							tempVirtualFile = languagePlugin.updateVirtualCode(uri, tempVirtualFile, tempSourceSnapshot, context.language.files);
+							break;
+						}
+					}
+				}
+
+				function getDocMap(virtualCodeId: string) {
+					for (const code of forEachEmbeddedCode(tempVirtualFile)) {
+						if (code.id === virtualCodeId) {
+							if (code.mappings.some(mapping => isCodeActionsEnabled(mapping.data))) {
+								return createDocMap(context, code, uri, sourceLanguageId, tempSourceSnapshot);
+							}
+							break;
+						}
+					}
+				}
+			}
+
+			if (document.getText() !== originalDocument.getText()) {
+				result.push({
+					title: isKindIncluded(kind, 'source.organizeImports') ? 'Organize Imports' : 'Fix All',
+					kind,
+					edit: {
+						changes: {
+							[uri]: [{
+								range: {
+									start: originalDocument.positionAt(0),
+									end: originalDocument.positionAt(originalDocument.getText().length),
+								},
+								newText: document.getText(),
+							}],
+						},
+					},
+				});
+			}
+		}
+
+		return result;
+
+		/**
+		 * Returns the text edits of `document` for each code action of `kind`, the caller applies the first one that fits.
+		 */
+		async function tryProvideEdits(
+			service: ServiceContext['services'][number],
+			document: TextDocument,
+			kind: string,
+		) {
+
+			const result: vscode.TextEdit[][] = [];
+
+			if (context.disabledServicePlugins.has(service[1]) || token.isCancellationRequested) {
+				return result;
+			}
+
+			try {
+				const codeActions = await service[1].provideCodeActions?.(
+					document,
+					{
+						start: document.positionAt(0),
+						end: document.positionAt(document.getText().length),
+					},
+					{
+						diagnostics: [],
+						only: [kind],
+						triggerKind: 2 satisfies typeof vscode.CodeActionTriggerKind.Automatic,
+					},
+					token,
+				);
+				for (let codeAction of codeActions ?? []) {
+					if (!codeAction.kind || !isKindIncluded(codeAction.kind, kind)) {
+						continue;
+					}
+					if (!codeAction.edit && service[1].resolveCodeAction) {
+						codeAction = await service[1].resolveCodeAction(codeAction, token);
+					}
+					const edits = codeAction.edit ? getTextEdits(codeAction.edit, document.uri) : [];
+					if (edits.length) {
+						result.push(edits);
+					}
+				}
+			}
+			catch (err) {
+				console.warn(err);
+			}
+
+			return result;
+		}
+	};
+}
+
+function isKindIncluded(kind: string, only: string) {
+	return kind === only || kind.startsWith(only + '.');
+}
+
+function getTextEdits(edit: vscode.WorkspaceEdit, uri: string) {
+	const edits: vscode.TextEdit[] = [...edit.changes?.[uri] ?? []];
+	for (const documentChange of edit.documentChanges ?? []) {
+		if ('textDocument' in documentChange && documentChange.textDocument.uri === uri) {
+			edits.push(...documentChange.edits);
+		}
+	}
+	return edits;
+}
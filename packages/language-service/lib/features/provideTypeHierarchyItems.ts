@@ -0,0 +1,150 @@
+import type * as vscode from 'vscode-languageserver-protocol';
+import type { ServiceContext } from '../types';
+import { notEmpty } from '../utils/common';
+import * as dedupe from '../utils/dedupe';
+import { languageFeatureWorker } from '../utils/featureWorkers';
+import { NoneCancellationToken } from '../utils/cancellation';
+import { isTypeHierarchyEnabled } from '@volar/language-core';
+
+export interface PluginTypeHierarchyData {
+	uri: string;
+	original: Pick<vscode.TypeHierarchyItem, 'data'>;
+	serviceIndex: number;
+	virtualDocumentUri: string | undefined;
+}
+
+export function register(context: ServiceContext) {
+
+	return {
+
+		doPrepare(uri: string, position: vscode.Position, token = NoneCancellationToken) {
+
+			return languageFeatureWorker(
+				context,
+				uri,
+				'provideTypeHierarchyItems',
+				() => position,
+				map => map.getGeneratedPositions(position, isTypeHierarchyEnabled),
+				async (service, document, position, map) => {
+					if (token.isCancellationRequested) {
+						return;
+					}
+					const items = await service[1].provideTypeHierarchyItems?.(document, position, token);
+					items?.forEach(item => {
+						item.data = {
+							uri,
+							original: {
+								data: item.data,
+							},
+							serviceIndex: context.services.indexOf(service),
+							virtualDocumentUri: map?.virtualFileDocument.uri,
+						} satisfies PluginTypeHierarchyData;
+					});
+					return items;
+				},
+				(data, map) => {
+					if (!map) {
+						return data;
+					}
+					return data
+						.map(item => transformTypeHierarchyItem(item))
+						.filter(notEmpty);
+				},
+				arr => dedupe.withLocations(arr.flat()),
+			);
+		},
+
+		getSupertypes(item: vscode.TypeHierarchyItem, token: vscode.CancellationToken) {
+			return getRelatedTypes(item, 'provideTypeHierarchySupertypes', token);
+		},
+
+		getSubtypes(item: vscode.TypeHierarchyItem, token: vscode.CancellationToken) {
+			return getRelatedTypes(item, 'provideTypeHierarchySubtypes', token);
+		},
+	};
+
+	async function getRelatedTypes(
+		item: vscode.TypeHierarchyItem,
+		apiName: 'provideTypeHierarchySupertypes' | 'provideTypeHierarchySubtypes',
+		token: vscode.CancellationToken,
+	) {
+
+		const data: PluginTypeHierarchyData | undefined = item.data;
+		const items: vscode.TypeHierarchyItem[] = [];
+
+		if (data) {
+
+			const service = context.services[data.serviceIndex];
+			const api = service[1][apiName];
+
+			if (!api) {
+				return items;
+			}
+
+			Object.assign(item, data.original);
+
+			if (data.virtualDocumentUri) {
+
+				const [virtualCode] = context.documents.getVirtualCodeByUri(data.virtualDocumentUri);
+
+				if (!virtualCode) {
+					return items;
+				}
+			}
+
+			const _items = await api(item, token) ?? [];
+
+			for (const _item of _items) {
+
+				_item.data = {
+					uri: data.uri,
+					original: {
+						data: _item.data,
+					},
+					serviceIndex: data.serviceIndex,
+					virtualDocumentUri: context.documents.getVirtualCodeByUri(_item.uri)[0] ? _item.uri : undefined,
+				} satisfies PluginTypeHierarchyData;
+
+				const transformed = transformTypeHierarchyItem(_item);
+
+				if (transformed) {
+					items.push(transformed);
+				}
+			}
+		}
+
+		return dedupe.withLocations(items);
+	}
+
+	function transformTypeHierarchyItem(tsItem: vscode.TypeHierarchyItem): vscode.TypeHierarchyItem | undefined {
+
+		const [virtualCode] = context.documents.getVirtualCodeByUri(tsItem.uri);
+
+		if (!virtualCode) {
+			return tsItem;
+		}
+
+		for (const map of context.documents.getMaps(virtualCode)) {
+
+			let range = map.getSourceRange(tsItem.range, isTypeHierarchyEnabled);
+			if (!range) {
+				range = {
+					start: map.sourceFileDocument.positionAt(0),
+					end: map.sourceFileDocument.positionAt(map.sourceFileDocument.getText().length),
+				};
+			}
+
+			const selectionRange = map.getSourceRange(tsItem.selectionRange, isTypeHierarchyEnabled);
+			if (!selectionRange) {
+				continue;
+			}
+
+			return {
+				...tsItem,
+				uri: map.sourceFileDocument.uri,
+				range,
+				selectionRange,
+			};
+		}
+	}
+}
@@ -1,6 +1,7 @@
-import { isDefinitionEnabled, isImplementationEnabled, isTypeDefinitionEnabled, type LanguageContext } from '@volar/language-core';
+import { isDeclarationEnabled, isDefinitionEnabled, isImplementationEnabled, isTypeDefinitionEnabled, type LanguageContext } from '@volar/language-core';
 import type * as vscode from 'vscode-languageserver-protocol';
 import { createDocumentProvider } from './documents';
+import * as executeCommand from './features/executeCommand';
 import * as autoInsert from './features/provideAutoInsertionEdit';
 import * as callHierarchy from './features/provideCallHierarchyItems';
 import * as codeActions from './features/provideCodeActions';
@@ -11,6 +12,7 @@ import * as definition from './features/provideDefinition';
 import * as diagnostics from './features/provideDiagnostics';
 import * as documentColors from './features/provideDocumentColors';
 import * as documentDrop from './features/provideDocumentDropEdits';
+import * as documentPaste from './features/provideDocumentPasteEdits';
 import * as format from './features/provideDocumentFormattingEdits';
 import * as documentHighlight from './features/provideDocumentHighlights';
 import * as documentLink from './features/provideDocumentLinks';
@@ -21,12 +23,15 @@ import * as fileRename from './features/provideFileRenameEdits';
 import * as foldingRanges from './features/provideFoldingRanges';
 import * as hover from './features/provideHover';
 import * as inlayHints from './features/provideInlayHints';
+import * as inlineValues from './features/provideInlineValues';
 import * as linkedEditing from './features/provideLinkedEditingRanges';
+import * as monikers from './features/provideMonikers';
 import * as references from './features/provideReferences';
 import * as rename from './features/provideRenameEdits';
 import * as renamePrepare from './features/provideRenameRange';
 import * as selectionRanges from './features/provideSelectionRanges';
 import * as signatureHelp from './features/provideSignatureHelp';
+import * as typeHierarchy from './features/provideTypeHierarchyItems';
 import * as workspaceSymbol from './features/provideWorkspaceSymbols';
 import * as codeActionResolve from './features/resolveCodeAction';
 import * as codeLensResolve from './features/resolveCodeLens';
@@ -34,6 +39,8 @@ import * as completionResolve from './features/resolveCompletionItem';
 import * as documentLinkResolve from './features/resolveDocumentLink';
 import * as inlayHintResolve from './features/resolveInlayHint';
 import type { ServiceContext, ServiceEnvironment, ServicePlugin } from './types';
+import { createServicePluginQuarantine } from './utils/quarantine';
+import { applyTimeBudgets } from './utils/timeBudget';
 
 export type LanguageService = ReturnType<typeof createLanguageService>;
 
@@ -44,6 +51,7 @@ export function createLanguageService(
 ) {
 
 	const context = createServiceContext();
+	const diagnosticsFeatures = diagnostics.register(context);
 
 	return {
 
@@ -60,19 +68,21 @@ export function createLanguageService(
 		findDocumentColors: documentColors.register(context),
 		getColorPresentations: colorPresentations.register(context),
 
-		doValidation: diagnostics.register(context),
+		...diagnosticsFeatures,
 		findReferences: references.register(context),
 		findFileReferences: fileReferences.register(context),
 		findDefinition: definition.register(context, 'provideDefinition', isDefinitionEnabled),
 		findTypeDefinition: definition.register(context, 'provideTypeDefinition', isTypeDefinitionEnabled),
 		findImplementations: definition.register(context, 'provideImplementation', isImplementationEnabled),
+		findDeclaration: definition.register(context, 'provideDeclaration', isDeclarationEnabled),
+		findMonikers: monikers.register(context),
 		prepareRename: renamePrepare.register(context),
 		doRename: rename.register(context),
 		getEditsForFileRename: fileRename.register(context),
-		getSemanticTokens: semanticTokens.register(context),
+		...semanticTokens.register(context),
 		doHover: hover.register(context),
 		doComplete: completions.register(context),
-		doCodeActions: codeActions.register(context),
+		doCodeActions: codeActions.register(context, diagnosticsFeatures.getReportedErrors),
 		doCodeActionResolve: codeActionResolve.register(context),
 		doCompletionResolve: completionResolve.register(context),
 		getSignatureHelp: signatureHelp.register(context),
@@ -84,10 +94,17 @@ export function createLanguageService(
 		findWorkspaceSymbols: workspaceSymbol.register(context),
 		doAutoInsert: autoInsert.register(context),
 		doDocumentDrop: documentDrop.register(context),
+		doDocumentPaste: documentPaste.register(context),
 		getInlayHints: inlayHints.register(context),
 		doInlayHintResolve: inlayHintResolve.register(context),
+		getInlineValues: inlineValues.register(context),
 		callHierarchy: callHierarchy.register(context),
-		dispose: () => context.services.forEach(service => service[1].dispose?.()),
+		typeHierarchy: typeHierarchy.register(context),
+		executeCommand: executeCommand.register(context),
+		dispose: () => {
+			context.services.forEach(service => service[1].dispose?.());
+			context.quarantine.dispose();
+		},
 		context,
 	};
 
@@ -164,10 +181,13 @@ export function createLanguageService(
 			},
 			disabledVirtualFileUris: new Set(),
 			disabledServicePlugins: new WeakSet(),
+			quarantine: createServicePluginQuarantine(env),
 		};
 
 		for (const servicePlugin of servicePlugins) {
-			context.services.push([servicePlugin, servicePlugin.create(context)]);
+			const instance = servicePlugin.create(context);
+			applyTimeBudgets(env, servicePlugin, instance, context.services.length);
+			context.services.push([servicePlugin, instance]);
 		}
 
 		return context;
@@ -2,6 +2,9 @@ import type { LanguageContext } from '@volar/language-core';
 import type * as vscode from 'vscode-languageserver-protocol';
 import type { TextDocument } from 'vscode-languageserver-textdocument';
 import type { DocumentProvider } from './documents';
+import type { ServicePluginQuarantine, ServicePluginQuarantineEvent } from './utils/quarantine';
+import type { DiagnosticSuppressionOptions } from './utils/suppression';
+import type { PerformanceTracer } from './utils/tracer';
 
 export type * from 'vscode-languageserver-protocol';
 
@@ -18,6 +21,26 @@ export interface ServiceEnvironment {
 	getConfiguration?<T>(section: string, scopeUri?: string): Promise<T | undefined>;
 	onDidChangeConfiguration?(cb: () => void): vscode.Disposable;
 	onDidChangeWatchedFiles?(cb: (params: vscode.DidChangeWatchedFilesParams) => void): vscode.Disposable;
+	applyWorkspaceEdit?(edit: vscode.WorkspaceEdit): Promise<boolean>;
+	/**
+	 * If provided, timing spans of service plugins are recorded to it.
+	 * Virtual code updates are recorded by the language plugins returned from `traceLanguagePlugins`.
+	 */
+	tracer?: PerformanceTracer;
+	/**
+	 * Called when a service plugin is disabled after crashing repeatedly, and when it is enabled again.
+	 */
+	onDidChangeServicePluginQuarantine?(event: ServicePluginQuarantineEvent): void;
+	/**
+	 * Milliseconds a service plugin may spend in a feature, keyed by the method name such as `provideHover`.
+	 * Results of plugins exceeding the budget are dropped, and completion lists are marked incomplete.
+	 */
+	timeBudgets?: Partial<Record<keyof ServicePluginInstance, number>>;
+	/**
+	 * Directive comments that suppress diagnostics of source documents, `false` to disable them.
+	 * The "Ignore this error" quick fix is only offered if `quickFix` is set.
+	 */
+	diagnosticSuppression?: DiagnosticSuppressionOptions | false;
 }
 
 export interface Console {
@@ -68,6 +91,7 @@ export interface ServiceContext {
 	services: [ServicePlugin, ServicePluginInstance][];
 	disabledVirtualFileUris: Set<string>;
 	disabledServicePlugins: WeakSet<ServicePluginInstance>;
+	quarantine: ServicePluginQuarantine;
 }
 
 export type Result<T> = T | Thenable<T>;
@@ -80,6 +104,17 @@ export interface ServicePlugin {
 	signatureHelpTriggerCharacters?: string[];
 	signatureHelpRetriggerCharacters?: string[];
 	autoFormatTriggerCharacters?: string[];
+	/**
+	 * Plugins with a completion priority always contribute to the completion list instead of competing for the main completion.
+	 * Duplicate items are taken from the plugin with the higher priority, and its items are sorted first.
+	 */
+	completionPriority?: number;
+	/**
+	 * Commands executed on the server by `ServicePluginInstance.executeCommand`.
+	 * The first argument of these commands must be the uri of the document they apply to,
+	 * the language server routes them to the project of that document and rejects them otherwise.
+	 */
+	commands?: string[];
 	create(context: ServiceContext): ServicePluginInstance;
 }
 
@@ -93,6 +128,7 @@ export interface ServicePluginInstance<P = any> {
 	provideDefinition?(document: TextDocument, position: vscode.Position, token: vscode.CancellationToken): NullableResult<vscode.LocationLink[]>;
 	provideTypeDefinition?(document: TextDocument, position: vscode.Position, token: vscode.CancellationToken): NullableResult<vscode.LocationLink[]>;
 	provideImplementation?(document: TextDocument, position: vscode.Position, token: vscode.CancellationToken): NullableResult<vscode.LocationLink[]>;
+	provideDeclaration?(document: TextDocument, position: vscode.Position, token: vscode.CancellationToken): NullableResult<vscode.LocationLink[]>;
 	provideCodeLenses?(document: TextDocument, token: vscode.CancellationToken): NullableResult<vscode.CodeLens[]>;
 	provideCodeActions?(document: TextDocument, range: vscode.Range, context: vscode.CodeActionContext, token: vscode.CancellationToken): NullableResult<vscode.CodeAction[]>;
 	provideDocumentFormattingEdits?(document: TextDocument, range: vscode.Range, options: vscode.FormattingOptions, token: vscode.CancellationToken): NullableResult<vscode.TextEdit[]>;
@@ -106,11 +142,16 @@ export interface ServicePluginInstance<P = any> {
 	provideRenameRange?(document: TextDocument, position: vscode.Position, token: vscode.CancellationToken): NullableResult<vscode.Range | { range: vscode.Range; placeholder: string; } | { message: string; }>;
 	provideRenameEdits?(document: TextDocument, position: vscode.Position, newName: string, token: vscode.CancellationToken): NullableResult<vscode.WorkspaceEdit>;
 	provideReferences?(document: TextDocument, position: vscode.Position, context: vscode.ReferenceContext, token: vscode.CancellationToken): NullableResult<vscode.Location[]>;
+	provideMonikers?(document: TextDocument, position: vscode.Position, token: vscode.CancellationToken): NullableResult<vscode.Moniker[]>;
 	provideSelectionRanges?(document: TextDocument, positions: vscode.Position[], token: vscode.CancellationToken): NullableResult<vscode.SelectionRange[]>;
 	provideInlayHints?(document: TextDocument, range: vscode.Range, token: vscode.CancellationToken): NullableResult<vscode.InlayHint[]>;
+	provideInlineValues?(document: TextDocument, range: vscode.Range, context: vscode.InlineValueContext, token: vscode.CancellationToken): NullableResult<vscode.InlineValue[]>;
 	provideCallHierarchyItems?(document: TextDocument, position: vscode.Position, token: vscode.CancellationToken): NullableResult<vscode.CallHierarchyItem[]>;
 	provideCallHierarchyIncomingCalls?(item: vscode.CallHierarchyItem, token: vscode.CancellationToken): Result<vscode.CallHierarchyIncomingCall[]>;
 	provideCallHierarchyOutgoingCalls?(item: vscode.CallHierarchyItem, token: vscode.CancellationToken): Result<vscode.CallHierarchyOutgoingCall[]>;
+	provideTypeHierarchyItems?(document: TextDocument, position: vscode.Position, token: vscode.CancellationToken): NullableResult<vscode.TypeHierarchyItem[]>;
+	provideTypeHierarchySupertypes?(item: vscode.TypeHierarchyItem, token: vscode.CancellationToken): NullableResult<vscode.TypeHierarchyItem[]>;
+	provideTypeHierarchySubtypes?(item: vscode.TypeHierarchyItem, token: vscode.CancellationToken): NullableResult<vscode.TypeHierarchyItem[]>;
 	provideDocumentSemanticTokens?(document: TextDocument, range: vscode.Range, legend: vscode.SemanticTokensLegend, token: vscode.CancellationToken): NullableResult<SemanticToken[]>;
 	provideWorkspaceSymbols?(query: string, token: vscode.CancellationToken): NullableResult<vscode.WorkspaceSymbol[]>;
 	provideDiagnostics?(document: TextDocument, token: vscode.CancellationToken): NullableResult<vscode.Diagnostic[]>;
@@ -122,6 +163,7 @@ export interface ServicePluginInstance<P = any> {
 	provideFileRenameEdits?(oldUri: string, newUri: string, token: vscode.CancellationToken): NullableResult<vscode.WorkspaceEdit>; // volar specific
 	provideFormattingIndentSensitiveLines?(document: TextDocument, token: vscode.CancellationToken): NullableResult<number[]>; // volar specific
 	provideDocumentDropEdits?(document: TextDocument, position: vscode.Position, dataTransfer: Map<string, DataTransferItem>, token: vscode.CancellationToken): NullableResult<DocumentDropEdit>; // volar specific
+	provideDocumentPasteEdits?(document: TextDocument, ranges: vscode.Range[], dataTransfer: Map<string, DataTransferItem>, token: vscode.CancellationToken): NullableResult<DocumentPasteEdit>; // volar specific
 	resolveCodeLens?(codeLens: vscode.CodeLens, token: vscode.CancellationToken): Result<vscode.CodeLens>;
 	resolveCodeAction?(codeAction: vscode.CodeAction, token: vscode.CancellationToken): Result<vscode.CodeAction>;
 	resolveCompletionItem?(item: vscode.CompletionItem, token: vscode.CancellationToken): Result<vscode.CompletionItem>;
@@ -129,6 +171,7 @@ export interface ServicePluginInstance<P = any> {
 	resolveInlayHint?(inlayHint: vscode.InlayHint, token: vscode.CancellationToken): Result<vscode.InlayHint>;
 	transformCompletionItem?(item: vscode.CompletionItem): vscode.CompletionItem | undefined; // volar specific
 	transformCodeAction?(item: vscode.CodeAction): vscode.CodeAction | undefined; // volar specific
+	executeCommand?(command: string, args: any[], token: vscode.CancellationToken): Result<any>;
 	dispose?(): void;
 }
 
@@ -139,6 +182,16 @@ export interface DocumentDropEdit {
 	createDataTransferFile?: (vscode.CreateFile & { contentsMimeType: string; })[];
 }
 
+export interface DocumentPasteEdit {
+	title?: string;
+	insertText: string;
+	insertTextFormat: vscode.InsertTextFormat;
+	/**
+	 * Edits outside of the pasted ranges, such as imports of the identifiers in the pasted text.
+	 */
+	additionalEdit?: vscode.WorkspaceEdit;
+}
+
 export interface DataTransferItem {
 	value: any;
 	asString(): Thenable<string>;
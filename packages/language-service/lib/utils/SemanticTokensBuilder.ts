@@ -1,4 +1,6 @@
-import type { SemanticTokens } from 'vscode-languageserver-protocol';
+import type { SemanticTokens, SemanticTokensDelta, SemanticTokensEdit } from 'vscode-languageserver-protocol';
+
+let lastResultId = 0;
 
 export class SemanticTokensBuilder {
 
@@ -14,7 +16,7 @@ export class SemanticTokensBuilder {
 	}
 
 	private initialize() {
-		this._id = Date.now();
+		this._id = ++lastResultId;
 		this._prevLine = 0;
 		this._prevChar = 0;
 		this._data = [];
@@ -51,4 +53,43 @@ export class SemanticTokensBuilder {
 			data: this._data,
 		};
 	}
+
+	/**
+	 * Compute the edits from `previousData` to the tokens pushed to this builder,
+	 * as a single edit replacing the range between the common prefix and suffix.
+	 */
+	public buildEdits(previousData: number[]): SemanticTokensDelta {
+		const data = this._data;
+		const maxCommonLength = Math.min(data.length, previousData.length);
+
+		let startIndex = 0;
+		while (startIndex < maxCommonLength && data[startIndex] === previousData[startIndex]) {
+			startIndex++;
+		}
+
+		let endIndex = 0;
+		while (
+			endIndex < maxCommonLength - startIndex
+			&& data[data.length - 1 - endIndex] === previousData[previousData.length - 1 - endIndex]
+		) {
+			endIndex++;
+		}
+
+		const edits: SemanticTokensEdit[] = [];
+		const deleteCount = previousData.length - endIndex - startIndex;
+		const insertData = data.slice(startIndex, data.length - endIndex);
+
+		if (deleteCount > 0 || insertData.length > 0) {
+			edits.push({
+				start: startIndex,
+				deleteCount,
+				data: insertData.length ? insertData : undefined,
+			});
+		}
+
+		return {
+			resultId: this.id,
+			edits,
+		};
+	}
 }
@@ -95,6 +95,14 @@ export function withCallHierarchyOutgoingCalls<T extends vscode.CallHierarchyOut
 		item.to.range.end.character,
 	].join(':'));
 }
+export function withMonikers<T extends vscode.Moniker>(items: T[]): T[] {
+	return dedupe(items, item => [
+		item.scheme,
+		item.identifier,
+		item.unique,
+		item.kind,
+	].join(':'));
+}
 export function withRanges<T extends vscode.Range>(items: T[]): T[] {
 	return dedupe(items, item => [
 		item.start.line,
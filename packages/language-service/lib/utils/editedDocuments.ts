@@ -0,0 +1,43 @@
+import { updateVirtualCodeMaps, type VirtualCode } from '@volar/language-core';
+import type * as ts from 'typescript';
+import type * as vscode from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SourceMapWithDocuments } from '../documents';
+import type { ServiceContext } from '../types';
+
+let fakeVersion = 0;
+
+/**
+ * Map a virtual code to a source snapshot with edits that are not synced to the file registry,
+ * for features that apply the edits of each embedded code one after another.
+ */
+export function createDocMap(context: ServiceContext, file: VirtualCode, sourceFileUri: string, sourceLanguageId: string, _sourceSnapshot: ts.IScriptSnapshot) {
+	const maps = updateVirtualCodeMaps(file, sourceFileUri2 => {
+		if (!sourceFileUri2) {
+			return [sourceFileUri, _sourceSnapshot];
+		}
+	});
+	if (maps.has(sourceFileUri) && maps.get(sourceFileUri)![0] === _sourceSnapshot) {
+		const map = maps.get(sourceFileUri)!;
+		const version = fakeVersion++;
+		return new SourceMapWithDocuments(
+			TextDocument.create(
+				sourceFileUri,
+				sourceLanguageId,
+				version,
+				_sourceSnapshot.getText(0, _sourceSnapshot.getLength())
+			),
+			TextDocument.create(
+				context.documents.getVirtualCodeUri(sourceFileUri, file.id),
+				file.languageId,
+				version,
+				file.snapshot.getText(0, file.snapshot.getLength())
+			),
+			map[1],
+		);
+	}
+}
+
+export function applyEdits(document: TextDocument, edits: vscode.TextEdit[]) {
+	return TextDocument.create(document.uri, document.languageId, document.version + 1, TextDocument.applyEdits(document, edits));
+}
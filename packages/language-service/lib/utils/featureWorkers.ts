@@ -6,6 +6,7 @@ import type { ServiceContext, ServicePluginInstance, ServicePlugin } from '../ty
 export async function documentFeatureWorker<T>(
 	context: ServiceContext,
 	uri: string,
+	feature: keyof ServicePluginInstance,
 	valid: (map: SourceMapWithDocuments<CodeInformation>) => boolean,
 	worker: (service: [ServicePlugin, ServicePluginInstance], document: TextDocument) => Thenable<T | null | undefined> | T | null | undefined,
 	transformResult: (result: T, map?: SourceMapWithDocuments<CodeInformation>) => T | undefined,
@@ -14,6 +15,7 @@ export async function documentFeatureWorker<T>(
 	return languageFeatureWorker(
 		context,
 		uri,
+		feature,
 		() => void 0,
 		function* (map) {
 			if (valid(map)) {
@@ -29,6 +31,7 @@ export async function documentFeatureWorker<T>(
 export async function languageFeatureWorker<T, K>(
 	context: ServiceContext,
 	uri: string,
+	feature: keyof ServicePluginInstance,
 	getReadDocParams: () => K,
 	eachVirtualDocParams: (map: SourceMapWithDocuments<CodeInformation>) => Generator<K>,
 	worker: (service: [ServicePlugin, ServicePluginInstance], document: TextDocument, params: K, map?: SourceMapWithDocuments<CodeInformation>) => Thenable<T | null | undefined> | T | null | undefined,
@@ -43,21 +46,34 @@ export async function languageFeatureWorker<T, K>(
 
 	let results: T[] = [];
 
+	// with a time budget, plugins whose results are combined do not need to wait for each other
+	const isParallel = context.env.timeBudgets?.[feature] !== undefined;
+
 	if (sourceFile.generated) {
 
-		await visitEmbedded(context, sourceFile.generated.code, async (_file, map) => {
+		await visitEmbedded(context, sourceFile.generated.code, async (code, map) => {
 
 			for (const mappedArg of eachVirtualDocParams(map)) {
 
-				for (const [serviceId, service] of Object.entries(context.services)) {
-					if (context.disabledServicePlugins.has(service[1])) {
-						continue;
+				const call = ([serviceId, service]: [string, [ServicePlugin, ServicePluginInstance]]) => safeCall(
+					() => traceWorker(context, service, serviceId, feature, uri, code.id, () => worker(service, map.virtualFileDocument, mappedArg, map)),
+					'service ' + serviceId + ' crashed on ' + map.virtualFileDocument.uri,
+					err => context.quarantine.recordCrash(context, service, serviceId, feature, uri, err),
+				);
+
+				if (combineResult && isParallel) {
+					for (const embeddedResult of await Promise.all(getEnabledServices(context).map(call))) {
+						const result = embeddedResult ? transformResult(embeddedResult, map) : undefined;
+						if (result) {
+							results.push(result);
+						}
 					}
+					continue;
+				}
 
-					const embeddedResult = await safeCall(
-						() => worker(service, map.virtualFileDocument, mappedArg, map),
-						'service ' + serviceId + ' crashed on ' + map.virtualFileDocument.uri,
-					);
+				for (const service of getEnabledServices(context)) {
+
+					const embeddedResult = await call(service);
 					if (!embeddedResult) {
 						continue;
 					}
@@ -82,29 +98,38 @@ export async function languageFeatureWorker<T, K>(
 
 		const document = context.documents.get(uri, sourceFile.languageId, sourceFile.snapshot);
 		const params = getReadDocParams();
-
-		for (const [serviceId, service] of Object.entries(context.services)) {
-			if (context.disabledServicePlugins.has(service[1])) {
-				continue;
+		const call = ([serviceId, service]: [string, [ServicePlugin, ServicePluginInstance]]) => safeCall(
+			() => traceWorker(context, service, serviceId, feature, uri, undefined, () => worker(service, document, params, undefined)),
+			'service ' + serviceId + ' crashed on ' + uri,
+			err => context.quarantine.recordCrash(context, service, serviceId, feature, uri, err),
+		);
+
+		if (combineResult && isParallel) {
+			for (const embeddedResult of await Promise.all(getEnabledServices(context).map(call))) {
+				const result = embeddedResult ? transformResult(embeddedResult, undefined) : undefined;
+				if (result) {
+					results.push(result);
+				}
 			}
+		}
+		else {
+			for (const service of getEnabledServices(context)) {
 
-			const embeddedResult = await safeCall(
-				() => worker(service, document, params, undefined),
-				'service ' + serviceId + ' crashed on ' + uri,
-			);
-			if (!embeddedResult) {
-				continue;
-			}
+				const embeddedResult = await call(service);
+				if (!embeddedResult) {
+					continue;
+				}
 
-			const result = transformResult(embeddedResult, undefined);
-			if (!result) {
-				continue;
-			}
+				const result = transformResult(embeddedResult, undefined);
+				if (!result) {
+					continue;
+				}
 
-			results.push(result);
+				results.push(result);
 
-			if (!combineResult) {
-				break;
+				if (!combineResult) {
+					break;
+				}
 			}
 		}
 	}
@@ -117,12 +142,33 @@ export async function languageFeatureWorker<T, K>(
 	}
 }
 
-export async function safeCall<T>(cb: () => Thenable<T> | T, errorMsg?: string) {
+function getEnabledServices(context: ServiceContext) {
+	return Object.entries(context.services).filter(([_, service]) => !context.disabledServicePlugins.has(service[1]));
+}
+
+function traceWorker<T>(
+	context: ServiceContext,
+	service: [ServicePlugin, ServicePluginInstance],
+	serviceId: string,
+	feature: keyof ServicePluginInstance,
+	uri: string,
+	virtualCodeId: string | undefined,
+	worker: () => T,
+) {
+	if (!context.env.tracer) {
+		return worker();
+	}
+	const name = service[0].name ?? 'service ' + serviceId;
+	return context.env.tracer.trace(name + ': ' + feature, 'featureWorker', { plugin: name, feature, uri, virtualCode: virtualCodeId }, worker);
+}
+
+export async function safeCall<T>(cb: () => Thenable<T> | T, errorMsg?: string, onError?: (err: unknown) => void) {
 	try {
 		return await cb();
 	}
 	catch (err) {
 		console.warn(errorMsg, err);
+		onError?.(err);
 	}
 }
 
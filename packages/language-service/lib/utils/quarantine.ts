@@ -0,0 +1,134 @@
+import type { ServiceContext, ServiceEnvironment, ServicePlugin, ServicePluginInstance } from '../types';
+
+export interface ServicePluginQuarantineEvent {
+	/**
+	 * Index of the service plugin in `ServiceContext.services`.
+	 */
+	serviceId: string;
+	name: string | undefined;
+	feature: string;
+	/**
+	 * Source file uri of the document the plugin crashed on.
+	 */
+	uri: string | undefined;
+	quarantined: boolean;
+}
+
+export type ServicePluginQuarantine = ReturnType<typeof createServicePluginQuarantine>;
+
+const maxCrashes = 3;
+const crashWindow = 60 * 1000;
+const cooldown = 5 * 60 * 1000;
+
+/**
+ * Count the crashes of service plugin instances per feature, a plugin instance that crashes `maxCrashes` times
+ * in one feature within `crashWindow` is added to `disabledServicePlugins` until `cooldown` has passed or it is released.
+ */
+export function createServicePluginQuarantine(env: ServiceEnvironment) {
+
+	const crashes = new WeakMap<ServicePluginInstance, Map<string, number[]>>();
+	const quarantined = new Map<ServicePluginInstance, {
+		context: ServiceContext;
+		event: ServicePluginQuarantineEvent;
+		timeout: ReturnType<typeof setTimeout>;
+	}>();
+
+	return {
+		/**
+		 * Count a crash of a service plugin instance in `feature`, cancellation exceptions are not counted.
+		 */
+		recordCrash(
+			context: ServiceContext,
+			[servicePlugin, instance]: [ServicePlugin, ServicePluginInstance],
+			serviceId: string,
+			feature: string,
+			uri: string,
+			err: unknown,
+		) {
+			if (!isCancellation(err)) {
+				recordCrash(context, servicePlugin, instance, serviceId, feature, uri);
+			}
+		},
+		isQuarantined(instance: ServicePluginInstance) {
+			return quarantined.has(instance);
+		},
+		release,
+		dispose() {
+			for (const { timeout } of quarantined.values()) {
+				clearTimeout(timeout);
+			}
+			quarantined.clear();
+		},
+	};
+
+	function recordCrash(
+		context: ServiceContext,
+		servicePlugin: ServicePlugin,
+		instance: ServicePluginInstance,
+		serviceId: string,
+		feature: string,
+		uri: string,
+	) {
+
+		if (quarantined.has(instance)) {
+			return;
+		}
+
+		let features = crashes.get(instance);
+		if (!features) {
+			features = new Map();
+			crashes.set(instance, features);
+		}
+
+		const now = Date.now();
+		const times = (features.get(feature) ?? []).filter(time => now - time < crashWindow);
+		times.push(now);
+		features.set(feature, times);
+
+		if (times.length < maxCrashes || context.disabledServicePlugins.has(instance)) {
+			return;
+		}
+
+		const event: ServicePluginQuarantineEvent = {
+			serviceId,
+			name: servicePlugin.name,
+			feature,
+			uri,
+			quarantined: true,
+		};
+
+		context.disabledServicePlugins.add(instance);
+		quarantined.set(instance, {
+			context,
+			event,
+			timeout: setTimeout(() => release(instance), cooldown),
+		});
+		env.console?.warn(`[volar] service plugin ${servicePlugin.name ?? serviceId} is disabled for ${cooldown / 1000}s after crashing ${maxCrashes} times in ${feature}`);
+		env.onDidChangeServicePluginQuarantine?.(event);
+	}
+
+	function release(instance: ServicePluginInstance) {
+
+		const state = quarantined.get(instance);
+		if (!state) {
+			return false;
+		}
+
+		clearTimeout(state.timeout);
+		quarantined.delete(instance);
+		crashes.delete(instance);
+		state.context.disabledServicePlugins.delete(instance);
+		env.onDidChangeServicePluginQuarantine?.({ ...state.event, quarantined: false });
+		return true;
+	}
+}
+
+/**
+ * e.g. `OperationCanceledException` of TypeScript and `CancellationError` of VSCode
+ */
+function isCancellation(err: unknown) {
+	return typeof err === 'object' && !!err && (
+		/cancel/i.test(err.constructor?.name)
+		|| ('name' in err && typeof err.name === 'string' && /cancel/i.test(err.name))
+	);
+}
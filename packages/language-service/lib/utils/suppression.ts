@@ -0,0 +1,213 @@
+import type * as vscode from 'vscode-languageserver-protocol';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+export interface CommentSyntax {
+	line?: string;
+	block?: [string, string];
+}
+
+export interface DiagnosticSuppressionOptions {
+	/**
+	 * Suppresses the diagnostics of the next line, optionally only the diagnostics with the listed codes.
+	 * @default 'volar-ignore-next-line'
+	 */
+	nextLineDirective?: string;
+	/**
+	 * Suppresses the diagnostics of the whole file, optionally only the diagnostics with the listed codes.
+	 * @default 'volar-ignore-file'
+	 */
+	fileDirective?: string;
+	/**
+	 * Offer an "Ignore this error" quick fix that inserts a next line directive.
+	 * @default false
+	 */
+	quickFix?: boolean;
+	/**
+	 * Comment syntax of the directives and the "Ignore this error" quick fix, keyed by language id.
+	 */
+	commentSyntax?: Record<string, CommentSyntax>;
+}
+
+interface Directive {
+	line: number;
+	/**
+	 * Empty if all diagnostics are suppressed.
+	 */
+	codes: string[];
+}
+
+const defaultCommentSyntax: Record<string, CommentSyntax> = {
+	javascript: { line: '//' },
+	javascriptreact: { line: '//' },
+	typescript: { line: '//' },
+	typescriptreact: { line: '//' },
+	jsonc: { line: '//' },
+	scss: { line: '//' },
+	less: { line: '//' },
+	css: { block: ['/*', '*/'] },
+	postcss: { block: ['/*', '*/'] },
+	html: { block: ['<!--', '-->'] },
+	xml: { block: ['<!--', '-->'] },
+	vue: { block: ['<!--', '-->'] },
+	svelte: { block: ['<!--', '-->'] },
+	astro: { block: ['<!--', '-->'] },
+	markdown: { block: ['<!--', '-->'] },
+	mdx: { block: ['{/*', '*/}'] },
+	yaml: { line: '#' },
+	python: { line: '#' },
+	shellscript: { line: '#' },
+	sql: { line: '--' },
+};
+
+const codePattern = /^[\w@$.:/()-]+$/;
+
+/**
+ * Filter out the diagnostics of a source document that are suppressed by directive comments.
+ */
+export function filterSuppressedDiagnostics(
+	document: TextDocument,
+	diagnostics: vscode.Diagnostic[],
+	options: DiagnosticSuppressionOptions | false | undefined,
+) {
+	if (options === false) {
+		return diagnostics;
+	}
+
+	const text = document.getText();
+	const nextLineDirective = options?.nextLineDirective ?? 'volar-ignore-next-line';
+	const fileDirective = options?.fileDirective ?? 'volar-ignore-file';
+
+	if (!text.includes(nextLineDirective) && !text.includes(fileDirective)) {
+		return diagnostics;
+	}
+
+	const commentStarts = getCommentStarts(options);
+	const fileDirectives = findDirectives(document, fileDirective, commentStarts);
+	const nextLineDirectives = new Map<number, Directive[]>();
+
+	for (const directive of findDirectives(document, nextLineDirective, commentStarts)) {
+		const directives = nextLineDirectives.get(directive.line + 1) ?? [];
+		directives.push(directive);
+		nextLineDirectives.set(directive.line + 1, directives);
+	}
+
+	return diagnostics.filter(diagnostic => {
+		const directives = [
+			...fileDirectives,
+			...nextLineDirectives.get(diagnostic.range.start.line) ?? [],
+		];
+		return !directives.some(directive => isSuppressed(directive, diagnostic));
+	});
+}
+
+/**
+ * Create a quick fix that inserts a next line directive above the diagnostic,
+ * or `undefined` if the quick fix is not enabled or the comment syntax of the language is unknown.
+ */
+export function createSuppressionCodeAction(
+	document: TextDocument,
+	diagnostic: vscode.Diagnostic,
+	languageId: string,
+	options: DiagnosticSuppressionOptions | false | undefined,
+): vscode.CodeAction | undefined {
+	if (!options || !options.quickFix) {
+		return;
+	}
+
+	const syntax = options.commentSyntax?.[languageId] ?? defaultCommentSyntax[languageId];
+	if (!syntax) {
+		return;
+	}
+
+	const line = diagnostic.range.start.line;
+	const lineText = document.getText({
+		start: { line, character: 0 },
+		end: { line: line + 1, character: 0 },
+	});
+	const indent = lineText.match(/^[ \t]*/)![0];
+	const code = diagnostic.code !== undefined && codePattern.test(String(diagnostic.code)) ? ' ' + diagnostic.code : '';
+	const directive = (options.nextLineDirective ?? 'volar-ignore-next-line') + code;
+	const comment = syntax.line
+		? `${syntax.line} ${directive}`
+		: `${syntax.block![0]} ${directive} ${syntax.block![1]}`;
+
+	return {
+		title: 'Ignore this error',
+		kind: 'quickfix',
+		diagnostics: [diagnostic],
+		edit: {
+			changes: {
+				[document.uri]: [{
+					range: {
+						start: { line, character: 0 },
+						end: { line, character: 0 },
+					},
+					newText: indent + comment + '\n',
+				}],
+			},
+		},
+	};
+}
+
+/**
+ * Find the directives that start a comment on their own line, e.g. `// volar-ignore-next-line`,
+ * so that the directives in strings or in the middle of other text are not matched.
+ */
+function findDirectives(document: TextDocument, directive: string, commentStarts: Set<string>) {
+
+	const text = document.getText();
+	const directives: Directive[] = [];
+
+	let offset = text.indexOf(directive);
+
+	while (offset !== -1) {
+		const end = offset + directive.length;
+		const before = text[offset - 1];
+		const after = text[end];
+		const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+		if (
+			(before === undefined || !/[\w-]/.test(before))
+			&& (after === undefined || !/[\w-]/.test(after))
+			&& commentStarts.has(text.substring(lineStart, offset).trim())
+		) {
+			const lineEnd = text.indexOf('\n', end);
+			const rest = text.substring(end, lineEnd === -1 ? text.length : lineEnd);
+			const codes: string[] = [];
+			for (const token of rest.split(/[\s,]+/)) {
+				if (!token) {
+					continue;
+				}
+				// stop at the end of comment such as `*/` or `-->`
+				if (!codePattern.test(token)) {
+					break;
+				}
+				codes.push(token);
+			}
+			directives.push({
+				line: document.positionAt(offset).line,
+				codes,
+			});
+		}
+		offset = text.indexOf(directive, end);
+	}
+
+	return directives;
+}
+
+function getCommentStarts(options: DiagnosticSuppressionOptions | undefined) {
+	const commentStarts = new Set<string>();
+	for (const syntax of [...Object.values(defaultCommentSyntax), ...Object.values(options?.commentSyntax ?? {})]) {
+		if (syntax.line) {
+			commentStarts.add(syntax.line);
+		}
+		if (syntax.block) {
+			commentStarts.add(syntax.block[0]);
+		}
+	}
+	return commentStarts;
+}
+
+function isSuppressed(directive: Directive, diagnostic: vscode.Diagnostic) {
+	return !directive.codes.length
+		|| (diagnostic.code !== undefined && directive.codes.includes(String(diagnostic.code)));
+}
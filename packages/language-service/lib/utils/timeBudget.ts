@@ -0,0 +1,65 @@
+import type { ServiceEnvironment, ServicePlugin, ServicePluginInstance } from '../types';
+
+type Method = (...args: unknown[]) => unknown;
+
+/**
+ * Resolve the calls of a service plugin instance that exceed `ServiceEnvironment.timeBudgets` with an empty result,
+ * which is an incomplete list for `provideCompletionItems` and `undefined` for other features.
+ * Only the methods with a budget are wrapped.
+ */
+export function applyTimeBudgets(
+	env: ServiceEnvironment,
+	servicePlugin: ServicePlugin,
+	instance: ServicePluginInstance,
+	serviceId: number,
+) {
+	const name = servicePlugin.name ?? 'service ' + serviceId;
+	for (const key of Object.keys(env.timeBudgets ?? {}) as (keyof ServicePluginInstance)[]) {
+		const budget = env.timeBudgets?.[key];
+		if (!budget) {
+			continue;
+		}
+		wrapMethod(instance, key, method => (...args) => {
+			const result = method(...args);
+			if (!isThenable(result)) {
+				return result;
+			}
+			return new Promise((resolve, reject) => {
+				const timeout = setTimeout(() => {
+					env.console?.warn(`[volar] ${name} exceeded the time budget of ${key} (${budget}ms)`);
+					resolve(key === 'provideCompletionItems' ? { isIncomplete: true, items: [] } : undefined);
+				}, budget);
+				result.then(
+					value => {
+						clearTimeout(timeout);
+						resolve(value);
+					},
+					err => {
+						clearTimeout(timeout);
+						reject(err);
+					},
+				);
+			});
+		});
+	}
+}
+
+/**
+ * Replace a method of `instance` with the result of `wrap`, including the methods inherited from its prototype.
+ */
+function wrapMethod(instance: ServicePluginInstance, key: keyof ServicePluginInstance, wrap: (method: Method) => Method) {
+	const method: unknown = instance[key];
+	if (typeof method !== 'function' || key === 'dispose') {
+		return;
+	}
+	Object.defineProperty(instance, key, {
+		value: wrap((...args) => method.apply(instance, args)),
+		writable: true,
+		configurable: true,
+		enumerable: true,
+	});
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+	return typeof value === 'object' && !!value && 'then' in value && typeof value.then === 'function';
+}
@@ -0,0 +1,134 @@
+import type { LanguagePlugin } from '@volar/language-core';
+
+export interface TraceSpan {
+	name: string;
+	category: string;
+	/**
+	 * Start time in milliseconds
+	 */
+	start: number;
+	/**
+	 * Duration in milliseconds
+	 */
+	duration: number;
+	args: Record<string, string | number | undefined>;
+}
+
+/**
+ * https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU
+ */
+export interface ChromeTrace {
+	traceEvents: {
+		name: string;
+		cat: string;
+		ph: 'X';
+		ts: number;
+		dur: number;
+		pid: number;
+		tid: number;
+		args: Record<string, string | number | undefined>;
+	}[];
+	displayTimeUnit: 'ms';
+}
+
+export type PerformanceTracer = ReturnType<typeof createPerformanceTracer>;
+
+/**
+ * @param maxSpans The oldest spans are dropped once the number of unflushed spans exceeds it.
+ */
+export function createPerformanceTracer(now = () => performance.now(), maxSpans = 10000) {
+
+	// ring buffer, `next` is the index of the oldest span once it is full
+	let spans: TraceSpan[] = [];
+	let next = 0;
+
+	return {
+		trace<T>(name: string, category: string, args: TraceSpan['args'], cb: () => T): T {
+			const start = now();
+			const end = () => {
+				const span: TraceSpan = {
+					name,
+					category,
+					start,
+					duration: now() - start,
+					args,
+				};
+				if (spans.length < maxSpans) {
+					spans.push(span);
+				}
+				else {
+					spans[next] = span;
+					next = (next + 1) % maxSpans;
+				}
+			};
+			let result: T;
+			try {
+				result = cb();
+			}
+			catch (err) {
+				end();
+				throw err;
+			}
+			if (isThenable(result)) {
+				result.then(end, end);
+			}
+			else {
+				end();
+			}
+			return result;
+		},
+		/**
+		 * Returns the recorded spans and clears them.
+		 */
+		flush() {
+			const result = [...spans.slice(next), ...spans.slice(0, next)];
+			spans = [];
+			next = 0;
+			return result;
+		},
+	};
+}
+
+/**
+ * Returns copies of the language plugins that record `createVirtualCode` and `updateVirtualCode`,
+ * pass them to the file registry instead of the original plugins.
+ */
+export function traceLanguagePlugins(tracer: PerformanceTracer, languagePlugins: LanguagePlugin[]) {
+	return languagePlugins.map((languagePlugin, i) => {
+		const traced: LanguagePlugin = Object.create(languagePlugin);
+		const name = 'languagePlugin ' + i;
+		traced.createVirtualCode = (fileId, languageId, snapshot, files) => tracer.trace(
+			name,
+			'createVirtualCode',
+			{ plugin: name, fileId, languageId },
+			() => languagePlugin.createVirtualCode(fileId, languageId, snapshot, files),
+		);
+		traced.updateVirtualCode = (fileId, virtualCode, newSnapshot, files, change) => tracer.trace(
+			name,
+			'updateVirtualCode',
+			{ plugin: name, fileId, virtualCode: virtualCode.id },
+			() => languagePlugin.updateVirtualCode(fileId, virtualCode, newSnapshot, files, change),
+		);
+		return traced;
+	});
+}
+
+export function toChromeTrace(spans: TraceSpan[]): ChromeTrace {
+	return {
+		traceEvents: spans.map(span => ({
+			name: span.name,
+			cat: span.category,
+			ph: 'X',
+			ts: Math.round(span.start * 1000),
+			dur: Math.round(span.duration * 1000),
+			pid: 1,
+			tid: 1,
+			args: span.args,
+		})),
+		displayTimeUnit: 'ms',
+	};
+}
+
+function isThenable(value: any): value is PromiseLike<any> {
+	return typeof value?.then === 'function';
+}
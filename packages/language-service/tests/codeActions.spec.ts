@@ -0,0 +1,78 @@
+import { createFileRegistry, type CodeInformation, type LanguagePlugin } from '@volar/language-core';
+import { describe, expect, it } from 'vitest';
+import type * as vscode from 'vscode-languageserver-protocol';
+import { createLanguageService } from '../lib/languageService';
+import type { ServicePlugin } from '../lib/types';
+import { stringToSnapshot } from '../lib/utils/common';
+
+const allFeatures: CodeInformation = {
+	verification: true,
+	completion: true,
+	semantic: true,
+	navigation: true,
+	structure: true,
+	format: true,
+};
+
+// source: "abc-def", generated: "abcdef", "abc" and "def" are mapped separately
+const languagePlugin: LanguagePlugin = {
+	createVirtualCode(_fileId, languageId, snapshot) {
+		if (languageId === 'test') {
+			return {
+				id: 'main',
+				languageId: 'typescript',
+				snapshot: stringToSnapshot(snapshot.getText(0, snapshot.getLength()).replace('-', '')),
+				mappings: [
+					{ sourceOffsets: [0], generatedOffsets: [0], lengths: [3], data: allFeatures },
+					{ sourceOffsets: [4], generatedOffsets: [3], lengths: [3], data: allFeatures },
+				],
+				embeddedCodes: [],
+			};
+		}
+	},
+	updateVirtualCode(fileId, _virtualCode, snapshot) {
+		return this.createVirtualCode(fileId, 'test', snapshot)!;
+	},
+};
+
+const servicePlugin: ServicePlugin = {
+	create() {
+		return {
+			provideDiagnostics(document) {
+				if (document.languageId === 'typescript') {
+					return [{
+						range: { start: document.positionAt(1), end: document.positionAt(5) },
+						message: 'spans two mappings',
+					}];
+				}
+			},
+			provideCodeActions(_document, _range, context) {
+				return context.diagnostics.map<vscode.CodeAction>(diagnostic => ({
+					title: 'Fix: ' + diagnostic.message,
+					kind: 'quickfix',
+					diagnostics: [diagnostic],
+				}));
+			},
+		};
+	},
+};
+
+describe(`Test code actions`, () => {
+
+	it(`provides code actions for diagnostics that span multiple mappings`, async () => {
+		const files = createFileRegistry([languagePlugin], false, () => { });
+		files.set('file:///a.test', 'test', stringToSnapshot('abc-def'));
+
+		const languageService = createLanguageService({ files }, [servicePlugin], { workspaceFolder: 'file:///' });
+		const diagnostics = await languageService.doValidation('file:///a.test');
+
+		expect(diagnostics.map(diagnostic => diagnostic.range)).toEqual([{
+			start: { line: 0, character: 1 },
+			end: { line: 0, character: 6 },
+		}]);
+
+		const codeActions = await languageService.doCodeActions('file:///a.test', diagnostics[0].range, { diagnostics });
+
+		expect(codeActions?.map(codeAction => codeAction.title)).toEqual(['Fix: spans two mappings']);
+	});
+});
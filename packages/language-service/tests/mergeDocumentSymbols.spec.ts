@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type * as vscode from 'vscode-languageserver-protocol';
+import { mergeDocumentSymbols } from '../lib/features/provideDocumentSymbols';
+
+function createSymbol(name: string, kind: vscode.SymbolKind, startLine: number, endLine: number, children?: vscode.DocumentSymbol[]): vscode.DocumentSymbol {
+	const range: vscode.Range = {
+		start: { line: startLine, character: 0 },
+		end: { line: endLine, character: 0 },
+	};
+	return { name, kind, range, selectionRange: range, children };
+}
+
+function toTree(symbols: vscode.DocumentSymbol[]): any[] {
+	return symbols.map(symbol => symbol.children?.length ? { [symbol.name]: toTree(symbol.children) } : symbol.name);
+}
+
+describe(`Test mergeDocumentSymbols()`, () => {
+
+	it(`nests symbols of embedded codes into the enclosing symbols`, () => {
+		const blocks = [
+			createSymbol('template', 2, 0, 3, [createSymbol('div', 8, 1, 2)]),
+			createSymbol('script', 2, 4, 10),
+			createSymbol('style', 2, 11, 14),
+		];
+		const script = [
+			createSymbol('foo', 12, 5, 7, [createSymbol('bar', 13, 6, 6)]),
+			createSymbol('baz', 13, 8, 8),
+		];
+		const style = [createSymbol('.a', 5, 12, 13)];
+		expect(toTree(mergeDocumentSymbols([style, script, blocks]))).toEqual([
+			{ template: ['div'] },
+			{ script: [{ foo: ['bar'] }, 'baz'] },
+			{ style: ['.a'] },
+		]);
+	});
+
+	it(`merges duplicated symbols of service plugins`, () => {
+		const a = [createSymbol('foo', 12, 0, 5, [createSymbol('bar', 13, 1, 1)])];
+		const b = [createSymbol('foo', 12, 0, 5, [createSymbol('bar', 13, 1, 1), createSymbol('baz', 13, 2, 2)])];
+		expect(toTree(mergeDocumentSymbols([a, b]))).toEqual([
+			{ foo: ['bar', 'baz'] },
+		]);
+	});
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import type * as vscode from 'vscode-languageserver-protocol';
+import { mergeRankedItems } from '../lib/features/provideCompletionItems';
+
+describe(`Test mergeRankedItems()`, () => {
+
+	it(`sorts items of higher priority lists first`, () => {
+		const lists: vscode.CompletionList[] = [
+			{ isIncomplete: false, items: [{ label: 'foo', sortText: '1' }] },
+			{ isIncomplete: false, items: [{ label: 'bar' }] },
+		];
+		expect(mergeRankedItems(lists, [0, 10])).toEqual([
+			{ label: 'bar', sortText: '00bar' },
+			{ label: 'foo', sortText: '011' },
+		]);
+	});
+
+	it(`de-duplicates items by label and kind`, () => {
+		const lists: vscode.CompletionList[] = [
+			{ isIncomplete: false, items: [{ label: 'foo', kind: 1, detail: 'low' }, { label: 'foo', kind: 2 }] },
+			{ isIncomplete: false, items: [{ label: 'foo', kind: 1, detail: 'high' }] },
+		];
+		expect(mergeRankedItems(lists, [1, 2])).toEqual([
+			{ label: 'foo', kind: 1, detail: 'high', sortText: '00foo' },
+			{ label: 'foo', kind: 2, sortText: '01foo' },
+		]);
+	});
+
+	it(`keeps the order of lists with the same priority`, () => {
+		const lists: vscode.CompletionList[] = [
+			{ isIncomplete: false, items: [{ label: 'a' }] },
+			{ isIncomplete: false, items: [{ label: 'b' }] },
+		];
+		expect(mergeRankedItems(lists, [0, 0]).map(item => item.label)).toEqual(['a', 'b']);
+	});
+});
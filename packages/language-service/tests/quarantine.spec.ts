@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'vitest';
+import type { ServiceContext, ServicePlugin, ServicePluginInstance } from '../lib/types';
+import { createServicePluginQuarantine, type ServicePluginQuarantineEvent } from '../lib/utils/quarantine';
+
+describe('service plugin quarantine', () => {
+
+	function setup() {
+		const events: ServicePluginQuarantineEvent[] = [];
+		const quarantine = createServicePluginQuarantine({
+			workspaceFolder: 'file:///',
+			onDidChangeServicePluginQuarantine: event => events.push(event),
+		});
+		const context = {
+			disabledServicePlugins: new WeakSet(),
+		} as unknown as ServiceContext;
+		const instance: ServicePluginInstance = {};
+		const service: [ServicePlugin, ServicePluginInstance] = [{ name: 'broken', create: () => instance }, instance];
+		return { events, quarantine, context, instance, service };
+	}
+
+	test('disable plugin after repeated crashes of a feature', () => {
+		const { events, quarantine, context, instance, service } = setup();
+
+		for (let i = 0; i < 2; i++) {
+			quarantine.recordCrash(context, service, '0', 'provideHover', 'file:///a.ts', new Error());
+			quarantine.recordCrash(context, service, '0', 'provideDocumentSymbols', 'file:///a.ts', new Error());
+		}
+		expect(context.disabledServicePlugins.has(instance)).toBe(false);
+
+		quarantine.recordCrash(context, service, '0', 'provideDocumentSymbols', 'file:///a.ts', new Error());
+		expect(context.disabledServicePlugins.has(instance)).toBe(true);
+		expect(quarantine.isQuarantined(instance)).toBe(true);
+		expect(events).toEqual([
+			{ serviceId: '0', name: 'broken', feature: 'provideDocumentSymbols', uri: 'file:///a.ts', quarantined: true },
+		]);
+
+		expect(quarantine.release(instance)).toBe(true);
+		expect(context.disabledServicePlugins.has(instance)).toBe(false);
+		expect(events[1]).toEqual({ serviceId: '0', name: 'broken', feature: 'provideDocumentSymbols', uri: 'file:///a.ts', quarantined: false });
+		expect(quarantine.release(instance)).toBe(false);
+
+		quarantine.dispose();
+	});
+
+	test('ignore cancellation', () => {
+		const { quarantine, context, instance, service } = setup();
+
+		class OperationCanceledException { }
+		for (let i = 0; i < 5; i++) {
+			quarantine.recordCrash(context, service, '0', 'provideHover', 'file:///a.ts', new OperationCanceledException());
+		}
+		expect(context.disabledServicePlugins.has(instance)).toBe(false);
+
+		quarantine.dispose();
+	});
+
+	test('count errors without a prototype', () => {
+		const { quarantine, context, instance, service } = setup();
+
+		for (let i = 0; i < 3; i++) {
+			quarantine.recordCrash(context, service, '0', 'provideCompletionItems', 'file:///a.ts', Object.create(null));
+		}
+		expect(context.disabledServicePlugins.has(instance)).toBe(true);
+
+		quarantine.dispose();
+	});
+});
@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'vitest';
+import { SemanticTokensBuilder } from '../lib/utils/SemanticTokensBuilder';
+
+describe('SemanticTokensBuilder.buildEdits', () => {
+
+	function build(tokens: [number, number, number, number, number][]) {
+		const builder = new SemanticTokensBuilder();
+		for (const token of tokens) {
+			builder.push(...token);
+		}
+		return builder;
+	}
+
+	test('no changes', () => {
+		const previous = build([[0, 0, 3, 1, 0], [1, 2, 4, 2, 0]]).build();
+		expect(build([[0, 0, 3, 1, 0], [1, 2, 4, 2, 0]]).buildEdits(previous.data).edits).toEqual([]);
+	});
+
+	test('replace middle token', () => {
+		const previous = build([[0, 0, 3, 1, 0], [1, 2, 4, 2, 0], [2, 0, 1, 1, 0]]).build();
+		expect(build([[0, 0, 3, 1, 0], [1, 2, 4, 3, 0], [2, 0, 1, 1, 0]]).buildEdits(previous.data).edits).toEqual([
+			{ start: 8, deleteCount: 1, data: [3] },
+		]);
+	});
+
+	test('remove trailing tokens', () => {
+		const previous = build([[0, 0, 3, 1, 0], [1, 2, 4, 2, 0]]).build();
+		expect(build([[0, 0, 3, 1, 0]]).buildEdits(previous.data).edits).toEqual([
+			{ start: 5, deleteCount: 5, data: undefined },
+		]);
+	});
+
+	test('insert leading token', () => {
+		const previous = build([[1, 2, 4, 2, 0]]).build();
+		expect(build([[0, 0, 3, 1, 0], [1, 2, 4, 2, 0]]).buildEdits(previous.data).edits).toEqual([
+			{ start: 0, deleteCount: 0, data: [0, 0, 3, 1, 0] },
+		]);
+	});
+});
@@ -0,0 +1,49 @@
+import { SourceMap } from '@volar/language-core';
+import { describe, expect, it } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SourceMapWithDocuments } from '../lib/documents';
+
+describe(`Test SourceMapWithDocuments`, () => {
+
+	// source: "abc--def", generated: "abcdef", "abc" and "def" are mapped separately
+	const map = new SourceMapWithDocuments(
+		TextDocument.create('file:///a.vue', 'vue', 0, 'abc--def'),
+		TextDocument.create('file:///a.vue.ts', 'typescript', 0, 'abcdef'),
+		new SourceMap([
+			{ sourceOffsets: [0], generatedOffsets: [0], lengths: [3], data: {} },
+			{ sourceOffsets: [5], generatedOffsets: [3], lengths: [3], data: {} },
+		]),
+	);
+	const unmappedStartRange = {
+		start: { line: 0, character: 4 },
+		end: { line: 0, character: 7 },
+	};
+
+	it(`returns fully mapped ranges`, () => {
+		expect(map.getSourceRange({
+			start: { line: 0, character: 3 },
+			end: { line: 0, character: 5 },
+		})).toEqual({
+			start: { line: 0, character: 5 },
+			end: { line: 0, character: 7 },
+		});
+	});
+
+	it(`joins the mapped start and end of ranges that span multiple mappings`, () => {
+		expect(map.getSourceRange({
+			start: { line: 0, character: 1 },
+			end: { line: 0, character: 5 },
+		})).toEqual({
+			start: { line: 0, character: 1 },
+			end: { line: 0, character: 7 },
+		});
+		expect(map.getGeneratedRange(unmappedStartRange)).toBeUndefined();
+	});
+
+	it(`joins partially mapped ranges if requested`, () => {
+		expect(map.getGeneratedRange(unmappedStartRange, undefined, true)).toEqual({
+			start: { line: 0, character: 3 },
+			end: { line: 0, character: 5 },
+		});
+	});
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type * as vscode from 'vscode-languageserver-protocol';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { createSuppressionCodeAction, filterSuppressedDiagnostics } from '../lib/utils/suppression';
+
+function createDiagnostic(line: number, code?: number | string): vscode.Diagnostic {
+	return {
+		range: {
+			start: { line, character: 2 },
+			end: { line, character: 5 },
+		},
+		message: 'error',
+		code,
+	};
+}
+
+describe(`Test diagnostic suppression`, () => {
+
+	it(`suppresses diagnostics of the next line`, () => {
+		const document = TextDocument.create('file:///a.ts', 'typescript', 0, [
+			'// volar-ignore-next-line',
+			'foo;',
+			'bar;',
+		].join('\n'));
+		const diagnostics = [createDiagnostic(1), createDiagnostic(2)];
+		expect(filterSuppressedDiagnostics(document, diagnostics, undefined)).toEqual([diagnostics[1]]);
+	});
+
+	it(`only suppresses the listed codes`, () => {
+		const document = TextDocument.create('file:///a.vue', 'vue', 0, [
+			'<!-- volar-ignore-next-line 2322, 2345 -->',
+			'<div>{{ foo }}</div>',
+		].join('\n'));
+		const diagnostics = [createDiagnostic(1, 2322), createDiagnostic(1, 2339), createDiagnostic(1)];
+		expect(filterSuppressedDiagnostics(document, diagnostics, undefined)).toEqual([diagnostics[1], diagnostics[2]]);
+	});
+
+	it(`suppresses diagnostics of the file`, () => {
+		const document = TextDocument.create('file:///a.css', 'css', 0, [
+			'/* volar-ignore-file */',
+			'a {}',
+		].join('\n'));
+		expect(filterSuppressedDiagnostics(document, [createDiagnostic(1, 'unknown')], undefined)).toEqual([]);
+	});
+
+	it(`only accepts directives in comments`, () => {
+		const document = TextDocument.create('file:///a.ts', 'typescript', 0, [
+			'const a = "// volar-ignore-next-line";',
+			'foo;',
+			'bar; // volar-ignore-file',
+		].join('\n'));
+		const diagnostics = [createDiagnostic(1), createDiagnostic(2)];
+		expect(filterSuppressedDiagnostics(document, diagnostics, undefined)).toEqual(diagnostics);
+	});
+
+	it(`supports custom directives and can be disabled`, () => {
+		const document = TextDocument.create('file:///a.ts', 'typescript', 0, [
+			'// @ignore',
+			'foo;',
+		].join('\n'));
+		const diagnostics = [createDiagnostic(1)];
+		expect(filterSuppressedDiagnostics(document, diagnostics, { nextLineDirective: '@ignore' })).toEqual([]);
+		expect(filterSuppressedDiagnostics(document, diagnostics, undefined)).toEqual(diagnostics);
+		expect(filterSuppressedDiagnostics(document, diagnostics, false)).toEqual(diagnostics);
+	});
+
+	it(`creates quick fixes in the comment syntax of the language`, () => {
+		const document = TextDocument.create('file:///a.vue', 'vue', 0, [
+			'<script setup lang="ts">',
+			'\tfoo;',
+			'</script>',
+		].join('\n'));
+		const diagnostic = createDiagnostic(1, 2304);
+		expect(createSuppressionCodeAction(document, diagnostic, 'typescript', { quickFix: true })?.edit?.changes?.[document.uri]).toEqual([{
+			range: {
+				start: { line: 1, character: 0 },
+				end: { line: 1, character: 0 },
+			},
+			newText: '\t// volar-ignore-next-line 2304\n',
+		}]);
+		expect(createSuppressionCodeAction(document, diagnostic, 'vue', { quickFix: true })?.edit?.changes?.[document.uri][0].newText)
+			.toBe('\t<!-- volar-ignore-next-line 2304 -->\n');
+		expect(createSuppressionCodeAction(document, diagnostic, 'unknown', { quickFix: true })).toBeUndefined();
+		expect(createSuppressionCodeAction(document, diagnostic, 'typescript', undefined)).toBeUndefined();
+		expect(createSuppressionCodeAction(document, diagnostic, 'typescript', {})).toBeUndefined();
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'vitest';
+import type { ServicePluginInstance } from '../lib/types';
+import { applyTimeBudgets } from '../lib/utils/timeBudget';
+
+describe('time budgets', () => {
+
+	const document = { uri: 'file:///a.ts' } as any;
+	const position = { line: 0, character: 0 };
+	const token = { isCancellationRequested: false } as any;
+
+	function setup() {
+		const warnings: string[] = [];
+		const instance: ServicePluginInstance = {
+			provideHover: () => new Promise(resolve => setTimeout(() => resolve({ contents: 'slow' }), 50)),
+			provideCompletionItems: () => new Promise(resolve => setTimeout(() => resolve({ isIncomplete: false, items: [{ label: 'slow' }] }), 50)),
+			provideDocumentHighlights: async () => [],
+		};
+		applyTimeBudgets(
+			{
+				workspaceFolder: 'file:///',
+				timeBudgets: { provideHover: 10, provideCompletionItems: 10, provideDocumentHighlights: 10 },
+				console: { warn: (message: string) => warnings.push(message) } as any,
+			},
+			{ name: 'slow', create: () => instance },
+			instance,
+			0,
+		);
+		return { instance, warnings };
+	}
+
+	test('drop results exceeding the budget', async () => {
+		const { instance, warnings } = setup();
+		expect(await instance.provideHover!(document, position, token)).toBeUndefined();
+		expect(await instance.provideDocumentHighlights!(document, position, token)).toEqual([]);
+		expect(warnings).toEqual(['[volar] slow exceeded the time budget of provideHover (10ms)']);
+	});
+
+	test('mark completion list incomplete', async () => {
+		const { instance } = setup();
+		expect(await instance.provideCompletionItems!(document, position, { triggerKind: 1 }, token)).toEqual({ isIncomplete: true, items: [] });
+	});
+
+	test('only wrap methods with a budget, including prototype methods', async () => {
+		class Instance implements ServicePluginInstance {
+			provideHover() {
+				return new Promise<undefined>(resolve => setTimeout(resolve, 50));
+			}
+			provideDocumentHighlights() {
+				return [];
+			}
+		}
+		const instance = new Instance();
+		const provideDocumentHighlights = instance.provideDocumentHighlights;
+		applyTimeBudgets(
+			{ workspaceFolder: 'file:///', timeBudgets: { provideHover: 10 } },
+			{ create: () => instance },
+			instance,
+			0,
+		);
+		expect(Object.keys(instance)).toEqual(['provideHover']);
+		expect(instance.provideDocumentHighlights).toBe(provideDocumentHighlights);
+		expect(await instance.provideHover()).toBeUndefined();
+	});
+});
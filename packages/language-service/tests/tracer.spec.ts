@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'vitest';
+import { createPerformanceTracer, toChromeTrace } from '../lib/utils/tracer';
+
+describe('performance tracer', () => {
+
+	test('record sync and async spans', async () => {
+		let time = 0;
+		const tracer = createPerformanceTracer(() => time);
+
+		tracer.trace('a', 'test', { uri: 'file:///a' }, () => {
+			time += 2;
+		});
+		const promise = tracer.trace('b', 'test', {}, async () => {
+			time += 3;
+		});
+		await promise;
+
+		expect(tracer.flush()).toEqual([
+			{ name: 'a', category: 'test', start: 0, duration: 2, args: { uri: 'file:///a' } },
+			{ name: 'b', category: 'test', start: 2, duration: 3, args: {} },
+		]);
+		expect(tracer.flush()).toEqual([]);
+	});
+
+	test('record span of throwing callback', () => {
+		const tracer = createPerformanceTracer(() => 0);
+
+		expect(() => tracer.trace('a', 'test', {}, () => {
+			throw new Error();
+		})).toThrow();
+		expect(tracer.flush().length).toBe(1);
+	});
+
+	test('drop the oldest spans over the limit', () => {
+		let time = 0;
+		const tracer = createPerformanceTracer(() => time++, 2);
+
+		for (const name of ['a', 'b', 'c', 'd', 'e']) {
+			tracer.trace(name, 'test', {}, () => { });
+		}
+		expect(tracer.flush().map(span => span.name)).toEqual(['d', 'e']);
+
+		tracer.trace('f', 'test', {}, () => { });
+		expect(tracer.flush().map(span => span.name)).toEqual(['f']);
+	});
+
+	test('convert to chrome trace', () => {
+		expect(toChromeTrace([
+			{ name: 'a', category: 'test', start: 1.5, duration: 0.25, args: {} },
+		])).toEqual({
+			traceEvents: [
+				{ name: 'a', cat: 'test', ph: 'X', ts: 1500, dur: 250, pid: 1, tid: 1, args: {} },
+			],
+			displayTimeUnit: 'ms',
+		});
+	});
+});
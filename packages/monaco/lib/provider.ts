@@ -362,7 +362,7 @@ export async function createLanguageFeaturesProvider(
 		},
 		async provideDeclaration(model, position) {
 			const languageService = await worker.withSyncedResources(getSyncUris());
-			const codeResult = await languageService.findDefinition(
+			const codeResult = await languageService.findDeclaration(
 				model.uri.toString(),
 				fromPosition(position),
 			);
@@ -1,5 +1,8 @@
 export * from 'muggle-string';
 export * from './lib/sourceMap';
+export * from './lib/sourceMapV3';
 export * from './lib/translateOffset';
 export * from './lib/buildMappings';
 export * from './lib/buildStacks';
+export * from './lib/composeMappings';
+export * from './lib/vlq';
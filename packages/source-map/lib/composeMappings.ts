@@ -0,0 +1,114 @@
+import type { Mapping } from './sourceMap';
+
+interface Segment<Data> {
+	mapping: Mapping<Data>;
+	sourceOffset: number;
+	generatedOffset: number;
+	length: number;
+}
+
+/**
+ * Compose `outer` (source -> intermediate) and `inner` (intermediate -> generated) mappings
+ * into mappings from the source of `outer` to the generated code of `inner`.
+ * Only ranges covered by both sides are kept, and `mergeData` may return `undefined` to drop a range.
+ */
+export function composeMappings<A, B, C>(
+	outer: Mapping<A>[],
+	inner: Mapping<B>[],
+	mergeData: (outerData: A, innerData: B) => C | undefined,
+) {
+
+	const outerSegments = getSegments(outer).sort((a, b) => a.generatedOffset - b.generatedOffset);
+	const maxEnds: number[] = [];
+	const result = new Map<Mapping<A>, Map<Mapping<B>, Mapping<C> | undefined>>();
+
+	for (const segment of outerSegments) {
+		maxEnds.push(Math.max(maxEnds[maxEnds.length - 1] ?? -1, segment.generatedOffset + segment.length));
+	}
+
+	for (const innerSegment of getSegments(inner)) {
+
+		const innerStart = innerSegment.sourceOffset;
+		const innerEnd = innerSegment.sourceOffset + innerSegment.length;
+
+		for (let i = findFirstReaching(maxEnds, innerStart); i < outerSegments.length; i++) {
+
+			const outerSegment = outerSegments[i];
+			if (outerSegment.generatedOffset > innerEnd) {
+				break;
+			}
+
+			const start = Math.max(innerStart, outerSegment.generatedOffset);
+			const end = Math.min(innerEnd, outerSegment.generatedOffset + outerSegment.length);
+			if (end < start || (end === start && innerSegment.length > 0 && outerSegment.length > 0)) {
+				continue;
+			}
+
+			let mappings = result.get(outerSegment.mapping);
+			if (!mappings) {
+				mappings = new Map();
+				result.set(outerSegment.mapping, mappings);
+			}
+			if (!mappings.has(innerSegment.mapping)) {
+				const data = mergeData(outerSegment.mapping.data, innerSegment.mapping.data);
+				mappings.set(innerSegment.mapping, data !== undefined ? {
+					source: outerSegment.mapping.source,
+					sourceOffsets: [],
+					generatedOffsets: [],
+					lengths: [],
+					data,
+				} : undefined);
+			}
+
+			const mapping = mappings.get(innerSegment.mapping);
+			if (mapping) {
+				mapping.sourceOffsets.push(outerSegment.sourceOffset + start - outerSegment.generatedOffset);
+				mapping.generatedOffsets.push(innerSegment.generatedOffset + start - innerStart);
+				mapping.lengths.push(end - start);
+			}
+		}
+	}
+
+	const mappings: Mapping<C>[] = [];
+	for (const innerMappings of result.values()) {
+		for (const mapping of innerMappings.values()) {
+			if (mapping) {
+				mappings.push(mapping);
+			}
+		}
+	}
+	return mappings;
+}
+
+function getSegments<Data>(mappings: Mapping<Data>[]) {
+	const segments: Segment<Data>[] = [];
+	for (const mapping of mappings) {
+		for (let i = 0; i < mapping.lengths.length; i++) {
+			segments.push({
+				mapping,
+				sourceOffset: mapping.sourceOffsets[i],
+				generatedOffset: mapping.generatedOffsets[i],
+				length: mapping.lengths[i],
+			});
+		}
+	}
+	return segments;
+}
+
+/**
+ * `maxEnds` is non-decreasing, find the first index whose end reaches `offset`.
+ */
+function findFirstReaching(maxEnds: number[], offset: number) {
+	let low = 0;
+	let high = maxEnds.length;
+	while (low < high) {
+		const mid = Math.floor((low + high) / 2);
+		if (maxEnds[mid] < offset) {
+			low = mid + 1;
+		}
+		else {
+			high = mid;
+		}
+	}
+	return low;
+}
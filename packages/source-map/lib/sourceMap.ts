@@ -1,4 +1,5 @@
 import { binarySearch } from './binarySearch';
+import { composeMappings } from './composeMappings';
 import { translateOffset } from './translateOffset';
 
 export type CodeRangeKey = 'sourceOffsets' | 'generatedOffsets';
@@ -11,6 +12,13 @@ export interface Mapping<T = any> {
 	data: T;
 }
 
+export interface SerializedSourceMap<Data = any> {
+	/** deduplicated `Mapping.data` values */
+	data: Data[];
+	/** mappings with `data` replaced by its index in the `data` array */
+	mappings: Mapping<number>[];
+}
+
 interface MappingMemo<Data> {
 	offsets: number[];
 	mappings: Set<Mapping<Data>>[];
@@ -23,6 +31,40 @@ export class SourceMap<Data = any> {
 
 	constructor(public readonly mappings: Mapping<Data>[]) { }
 
+	/**
+	 * Create a map from the source of `outer` to the generated code of `inner`,
+	 * where the generated code of `outer` is the source of `inner`.
+	 */
+	static compose<A, B, C>(
+		outer: SourceMap<A>,
+		inner: SourceMap<B>,
+		mergeData: (outerData: A, innerData: B) => C | undefined,
+	) {
+		return new SourceMap<C>(composeMappings(outer.mappings, inner.mappings, mergeData));
+	}
+
+	static fromJSON<Data>(json: SerializedSourceMap<Data>) {
+		return new SourceMap<Data>(json.mappings.map(mapping => ({
+			...mapping,
+			data: json.data[mapping.data],
+		})));
+	}
+
+	toJSON(): SerializedSourceMap<Data> {
+		const data: Data[] = [];
+		const dataIndexes = new Map<Data, number>();
+		const mappings = this.mappings.map(mapping => {
+			let index = dataIndexes.get(mapping.data);
+			if (index === undefined) {
+				index = data.length;
+				data.push(mapping.data);
+				dataIndexes.set(mapping.data, index);
+			}
+			return { ...mapping, data: index };
+		});
+		return { data, mappings };
+	}
+
 	getSourceOffset(generatedOffset: number) {
 		for (const mapped of this.findMatching(generatedOffset, 'generatedOffsets', 'sourceOffsets')) {
 			return mapped;
@@ -43,6 +85,62 @@ export class SourceMap<Data = any> {
 		return this.findMatching(sourceOffset, 'sourceOffsets', 'generatedOffsets');
 	}
 
+	getSourceRanges(generatedStart: number, generatedEnd: number, filter: (data: Data) => boolean = () => true) {
+		return this.findMatchingRanges(generatedStart, generatedEnd, 'generatedOffsets', 'sourceOffsets', filter);
+	}
+
+	getGeneratedRanges(sourceStart: number, sourceEnd: number, filter: (data: Data) => boolean = () => true) {
+		return this.findMatchingRanges(sourceStart, sourceEnd, 'sourceOffsets', 'generatedOffsets', filter);
+	}
+
+	/**
+	 * Yields `[start, end, mapping, isPartial]` for every mapped segment overlapping the range,
+	 * ordered by the offset in `fromRange`. Segments are clipped to the range,
+	 * and `isPartial` is `true` if the segment does not cover the whole range.
+	 */
+	* findMatchingRanges(start: number, end: number, fromRange: CodeRangeKey, toRange: CodeRangeKey, filter: (data: Data) => boolean = () => true) {
+		const memo = this.getMemoBasedOnRange(fromRange);
+		if (memo.offsets.length === 0) {
+			return;
+		}
+
+		const { low } = binarySearch(memo.offsets, start);
+		const { high } = binarySearch(memo.offsets, end);
+		const skip = new Set<Mapping<Data>>();
+		const results: [number, number, number, Mapping<Data>, boolean][] = [];
+
+		for (let i = low; i <= high; i++) {
+			for (const mapping of memo.mappings[i]) {
+				if (skip.has(mapping)) {
+					continue;
+				}
+				skip.add(mapping);
+
+				if (!filter(mapping.data)) {
+					continue;
+				}
+
+				for (let j = 0; j < mapping.lengths.length; j++) {
+					const fromOffset = mapping[fromRange][j];
+					const overlapStart = Math.max(start, fromOffset);
+					const overlapEnd = Math.min(end, fromOffset + mapping.lengths[j]);
+					if (overlapEnd < overlapStart || (overlapEnd === overlapStart && start !== end)) {
+						continue;
+					}
+					const toStart = mapping[toRange][j] + overlapStart - fromOffset;
+					const toEnd = toStart + overlapEnd - overlapStart;
+					results.push([overlapStart, toStart, toEnd, mapping, overlapStart !== start || overlapEnd !== end]);
+				}
+			}
+		}
+
+		results.sort((a, b) => a[0] - b[0]);
+
+		for (const [_, toStart, toEnd, mapping, isPartial] of results) {
+			yield [toStart, toEnd, mapping, isPartial] as const;
+		}
+	}
+
 	* findMatching(offset: number, fromRange: CodeRangeKey, toRange: CodeRangeKey) {
 		const memo = this.getMemoBasedOnRange(fromRange);
 		if (memo.offsets.length === 0) {
@@ -0,0 +1,241 @@
+import { binarySearch } from './binarySearch';
+import type { Mapping } from './sourceMap';
+import { decodeVLQ, encodeVLQ } from './vlq';
+
+export interface SourceMapV3 {
+	version: 3;
+	file?: string;
+	sourceRoot?: string;
+	sources: string[];
+	sourcesContent?: (string | null)[];
+	names: string[];
+	mappings: string;
+}
+
+interface MappingPoint {
+	generatedOffset: number;
+	source?: {
+		index: number;
+		offset: number;
+	};
+}
+
+/**
+ * Convert mappings to a Source Map v3 object.
+ * `getSource` resolves `Mapping.source` to the file name and content written to `sources` and `sourcesContent`,
+ * mappings of unresolved sources are omitted.
+ */
+export function toSourceMapV3<Data>(
+	mappings: Mapping<Data>[],
+	generatedCode: string,
+	getSource: (source: string | undefined) => { name: string; content: string; } | undefined,
+	file?: string,
+): SourceMapV3 {
+
+	const sources: string[] = [];
+	const sourcesContent: string[] = [];
+	const sourceLineOffsets: number[][] = [];
+	const sourceIndexes = new Map<string | undefined, number | undefined>();
+	const generatedLineOffsets = getLineOffsets(generatedCode);
+	const points: MappingPoint[] = [];
+
+	for (const mapping of mappings) {
+		if (!sourceIndexes.has(mapping.source)) {
+			const source = getSource(mapping.source);
+			if (source) {
+				sourceIndexes.set(mapping.source, sources.length);
+				sources.push(source.name);
+				sourcesContent.push(source.content);
+				sourceLineOffsets.push(getLineOffsets(source.content));
+			}
+			else {
+				sourceIndexes.set(mapping.source, undefined);
+			}
+		}
+		const sourceIndex = sourceIndexes.get(mapping.source);
+		if (sourceIndex === undefined) {
+			continue;
+		}
+		for (let i = 0; i < mapping.lengths.length; i++) {
+			const generatedStart = mapping.generatedOffsets[i];
+			const generatedEnd = generatedStart + mapping.lengths[i];
+			const sourceStart = mapping.sourceOffsets[i];
+			points.push({ generatedOffset: generatedStart, source: { index: sourceIndex, offset: sourceStart } });
+			// a segment only covers one line, so continue the mapping at each line start
+			let line = offsetToLineColumn(generatedLineOffsets, generatedStart)[0] + 1;
+			while (line < generatedLineOffsets.length && generatedLineOffsets[line] < generatedEnd) {
+				const generatedOffset = generatedLineOffsets[line];
+				points.push({ generatedOffset, source: { index: sourceIndex, offset: sourceStart + generatedOffset - generatedStart } });
+				line++;
+			}
+			points.push({ generatedOffset: generatedEnd });
+		}
+	}
+
+	points.sort((a, b) => a.generatedOffset - b.generatedOffset || (a.source ? 0 : 1) - (b.source ? 0 : 1));
+
+	const lines: string[][] = generatedLineOffsets.map(() => []);
+	let lastGeneratedOffset = -1;
+	let lastGeneratedLine = -1;
+	let lastGeneratedColumn = 0;
+	let lastSourceIndex = 0;
+	let lastSourceLine = 0;
+	let lastSourceColumn = 0;
+
+	for (const point of points) {
+		if (point.generatedOffset === lastGeneratedOffset) {
+			continue;
+		}
+		lastGeneratedOffset = point.generatedOffset;
+
+		const [generatedLine, generatedColumn] = offsetToLineColumn(generatedLineOffsets, point.generatedOffset);
+		if (generatedLine !== lastGeneratedLine) {
+			lastGeneratedLine = generatedLine;
+			lastGeneratedColumn = 0;
+		}
+
+		if (!point.source && lines[generatedLine].length === 0) {
+			// nothing to end before the first segment of a line
+			continue;
+		}
+
+		const values = [generatedColumn - lastGeneratedColumn];
+		lastGeneratedColumn = generatedColumn;
+
+		if (point.source) {
+			const [sourceLine, sourceColumn] = offsetToLineColumn(sourceLineOffsets[point.source.index], point.source.offset);
+			values.push(
+				point.source.index - lastSourceIndex,
+				sourceLine - lastSourceLine,
+				sourceColumn - lastSourceColumn,
+			);
+			lastSourceIndex = point.source.index;
+			lastSourceLine = sourceLine;
+			lastSourceColumn = sourceColumn;
+		}
+
+		lines[generatedLine].push(encodeVLQ(values));
+	}
+
+	while (lines.length && lines[lines.length - 1].length === 0) {
+		lines.pop();
+	}
+
+	return {
+		version: 3,
+		file,
+		sources,
+		sourcesContent,
+		names: [],
+		mappings: lines.map(segments => segments.join(',')).join(';'),
+	};
+}
+
+/**
+ * Convert a Source Map v3 object to mappings.
+ * `Mapping.source` is set to the entry in `sources`, and source content is read from `sourcesContent` or `getSourceContent`.
+ * Each segment is assumed to cover the same length in both codes, until the next segment or the end of the line.
+ */
+export function fromSourceMapV3<Data>(
+	sourceMap: SourceMapV3,
+	generatedCode: string,
+	data: Data,
+	getSourceContent?: (source: string) => string | undefined,
+): Mapping<Data>[] {
+
+	const generatedLineOffsets = getLineOffsets(generatedCode);
+	const sourceCodes: (string | undefined)[] = [];
+	const sourceLineOffsets: (number[] | undefined)[] = [];
+	const mappings: (Mapping<Data> | undefined)[] = [];
+
+	for (let i = 0; i < sourceMap.sources.length; i++) {
+		const content = sourceMap.sourcesContent?.[i] ?? getSourceContent?.(sourceMap.sources[i]);
+		sourceCodes.push(content);
+		sourceLineOffsets.push(content !== undefined ? getLineOffsets(content) : undefined);
+	}
+
+	let sourceIndex = 0;
+	let sourceLine = 0;
+	let sourceColumn = 0;
+
+	const lines = sourceMap.mappings.split(';');
+
+	for (let generatedLine = 0; generatedLine < lines.length && generatedLine < generatedLineOffsets.length; generatedLine++) {
+
+		const segments = lines[generatedLine].split(',').filter(segment => !!segment).map(decodeVLQ);
+		const generatedLineEnd = getLineEnd(generatedCode, generatedLineOffsets, generatedLine);
+		let generatedColumn = 0;
+
+		for (let i = 0; i < segments.length; i++) {
+			const segment = segments[i];
+			generatedColumn += segment[0];
+			if (segment.length < 4) {
+				continue;
+			}
+			sourceIndex += segment[1];
+			sourceLine += segment[2];
+			sourceColumn += segment[3];
+
+			const sourceCode = sourceCodes[sourceIndex];
+			const lineOffsets = sourceLineOffsets[sourceIndex];
+			if (sourceCode === undefined || lineOffsets === undefined || sourceLine >= lineOffsets.length) {
+				continue;
+			}
+
+			const generatedOffset = generatedLineOffsets[generatedLine] + generatedColumn;
+			const sourceOffset = lineOffsets[sourceLine] + sourceColumn;
+			const nextGeneratedOffset = i + 1 < segments.length
+				? generatedOffset + segments[i + 1][0]
+				: generatedLineEnd;
+			const length = Math.min(
+				nextGeneratedOffset,
+				generatedLineEnd,
+			) - generatedOffset;
+			const sourceLength = getLineEnd(sourceCode, lineOffsets, sourceLine) - sourceOffset;
+			const finalLength = Math.min(length, sourceLength);
+			if (finalLength <= 0) {
+				continue;
+			}
+
+			let mapping = mappings[sourceIndex];
+			if (!mapping) {
+				mapping = mappings[sourceIndex] = {
+					source: sourceMap.sources[sourceIndex],
+					sourceOffsets: [],
+					generatedOffsets: [],
+					lengths: [],
+					data,
+				};
+			}
+			mapping.sourceOffsets.push(sourceOffset);
+			mapping.generatedOffsets.push(generatedOffset);
+			mapping.lengths.push(finalLength);
+		}
+	}
+
+	return mappings.filter((mapping): mapping is Mapping<Data> => !!mapping);
+}
+
+function getLineOffsets(text: string) {
+	const offsets = [0];
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === '\n') {
+			offsets.push(i + 1);
+		}
+	}
+	return offsets;
+}
+
+function getLineEnd(text: string, lineOffsets: number[], line: number) {
+	let end = line + 1 < lineOffsets.length ? lineOffsets[line + 1] - 1 : text.length;
+	if (end > lineOffsets[line] && text[end - 1] === '\r') {
+		end--;
+	}
+	return end;
+}
+
+function offsetToLineColumn(lineOffsets: number[], offset: number) {
+	const { low, match } = binarySearch(lineOffsets, offset);
+	const line = match ?? low;
+	return [line, offset - lineOffsets[line]] as const;
+}
@@ -0,0 +1,45 @@
+const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const charToInteger = new Map<string, number>();
+
+for (let i = 0; i < chars.length; i++) {
+	charToInteger.set(chars[i], i);
+}
+
+export function encodeVLQ(values: number[]) {
+	let result = '';
+	for (const value of values) {
+		let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+		do {
+			let digit = vlq & 31;
+			vlq >>>= 5;
+			if (vlq > 0) {
+				digit |= 32;
+			}
+			result += chars[digit];
+		} while (vlq > 0);
+	}
+	return result;
+}
+
+export function decodeVLQ(segment: string) {
+	const result: number[] = [];
+	let shift = 0;
+	let value = 0;
+	for (const char of segment) {
+		const integer = charToInteger.get(char);
+		if (integer === undefined) {
+			throw new Error(`Invalid base64 VLQ character: ${char}`);
+		}
+		value += (integer & 31) << shift;
+		if (integer & 32) {
+			shift += 5;
+		}
+		else {
+			const negative = value & 1;
+			value >>>= 1;
+			result.push(negative ? (value === 0 ? -0x80000000 : -value) : value);
+			value = shift = 0;
+		}
+	}
+	return result;
+}
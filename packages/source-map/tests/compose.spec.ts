@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'vitest';
+import { SourceMap } from '../lib/sourceMap';
+
+describe('SourceMap.compose', () => {
+	test('maps through both layers', () => {
+		const outer = new SourceMap([
+			{ sourceOffsets: [0], generatedOffsets: [10], lengths: [10], data: 'a' },
+		]);
+		const inner = new SourceMap([
+			{ sourceOffsets: [12], generatedOffsets: [100], lengths: [4], data: 'b' },
+		]);
+		const composed = SourceMap.compose(outer, inner, (a, b) => a + b);
+		expect(composed.mappings).toEqual([
+			{ sourceOffsets: [2], generatedOffsets: [100], lengths: [4], data: 'ab' },
+		]);
+		expect(composed.getSourceOffset(101)?.[0]).toEqual(3);
+	});
+
+	test('clips to ranges covered by both layers', () => {
+		const outer = new SourceMap([
+			{ source: 'foo', sourceOffsets: [0, 20], generatedOffsets: [0, 10], lengths: [5, 5], data: 'a' },
+		]);
+		const inner = new SourceMap([
+			{ sourceOffsets: [3], generatedOffsets: [0], lengths: [10], data: 'b' },
+		]);
+		expect(SourceMap.compose(outer, inner, (a, b) => a + b).mappings).toEqual([
+			{ source: 'foo', sourceOffsets: [3, 20], generatedOffsets: [0, 7], lengths: [2, 3], data: 'ab' },
+		]);
+	});
+
+	test('drops ranges when mergeData returns undefined', () => {
+		const outer = new SourceMap([
+			{ sourceOffsets: [0], generatedOffsets: [0], lengths: [5], data: true },
+			{ sourceOffsets: [10], generatedOffsets: [5], lengths: [5], data: false },
+		]);
+		const inner = new SourceMap([
+			{ sourceOffsets: [0], generatedOffsets: [0], lengths: [10], data: true },
+		]);
+		expect(SourceMap.compose(outer, inner, (a, b) => a && b ? true : undefined).mappings).toEqual([
+			{ sourceOffsets: [0], generatedOffsets: [0], lengths: [5], data: true },
+		]);
+	});
+});
@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'vitest';
+import { SourceMap } from '../lib/sourceMap';
+
+describe('findMatchingRanges', () => {
+	const map = new SourceMap([
+		{ sourceOffsets: [0], generatedOffsets: [100], lengths: [10], data: 'a' },
+		{ sourceOffsets: [10], generatedOffsets: [200], lengths: [10], data: 'b' },
+	]);
+
+	test('range within a mapping', () => {
+		expect([...map.getGeneratedRanges(2, 5)].map(([start, end, mapping, isPartial]) => [start, end, mapping.data, isPartial])).toEqual([
+			[102, 105, 'a', false],
+		]);
+	});
+
+	test('range spans two mappings', () => {
+		expect([...map.getGeneratedRanges(5, 15)].map(([start, end, mapping, isPartial]) => [start, end, mapping.data, isPartial])).toEqual([
+			[105, 110, 'a', true],
+			[200, 205, 'b', true],
+		]);
+	});
+
+	test('range touches mapping boundary', () => {
+		expect([...map.getGeneratedRanges(10, 12)].map(([start, end, mapping, isPartial]) => [start, end, mapping.data, isPartial])).toEqual([
+			[200, 202, 'b', false],
+		]);
+	});
+
+	test('empty range at mapping boundary', () => {
+		expect([...map.getGeneratedRanges(10, 10)].map(([start, end, mapping, isPartial]) => [start, end, mapping.data, isPartial])).toEqual([
+			[110, 110, 'a', false],
+			[200, 200, 'b', false],
+		]);
+	});
+
+	test('filter', () => {
+		expect([...map.getSourceRanges(105, 205, data => data === 'b')].map(([start, end, mapping, isPartial]) => [start, end, mapping.data, isPartial])).toEqual([
+			[10, 15, 'b', true],
+		]);
+	});
+
+	test('range outside mappings', () => {
+		expect([...map.getGeneratedRanges(30, 40)]).toEqual([]);
+	});
+});
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'vitest';
+import { SourceMap } from '../lib/sourceMap';
+import { fromSourceMapV3, toSourceMapV3 } from '../lib/sourceMapV3';
+
+describe('sourceMapV3', () => {
+	const sourceCode = 'let a = 1;\nlet b = 2;';
+	const generatedCode = '// header\nconst a = 1;\nconst b = 2;';
+
+	test('toSourceMapV3', () => {
+		const sourceMap = toSourceMapV3(
+			[
+				{ sourceOffsets: [4, 15], generatedOffsets: [16, 29], lengths: [6, 6], data: undefined },
+			],
+			generatedCode,
+			() => ({ name: 'foo.ts', content: sourceCode }),
+			'foo.js',
+		);
+		expect(sourceMap).toEqual({
+			version: 3,
+			file: 'foo.js',
+			sources: ['foo.ts'],
+			sourcesContent: [sourceCode],
+			names: [],
+			mappings: ';MAAI,M;MACA,M',
+		});
+	});
+
+	test('multiline mapping', () => {
+		const sourceMap = toSourceMapV3(
+			[
+				{ sourceOffsets: [0], generatedOffsets: [0], lengths: [sourceCode.length], data: undefined },
+			],
+			sourceCode,
+			() => ({ name: 'foo.ts', content: sourceCode }),
+		);
+		expect(sourceMap.mappings).toEqual('AAAA;AACA,U');
+	});
+
+	test('round trip', () => {
+		const mappings = fromSourceMapV3(
+			toSourceMapV3(
+				[
+					{ sourceOffsets: [4, 15], generatedOffsets: [16, 29], lengths: [6, 6], data: undefined },
+				],
+				generatedCode,
+				() => ({ name: 'foo.ts', content: sourceCode }),
+			),
+			generatedCode,
+			'data',
+		);
+		expect(mappings).toEqual([
+			{ source: 'foo.ts', sourceOffsets: [4, 15], generatedOffsets: [16, 29], lengths: [6, 6], data: 'data' },
+		]);
+	});
+
+	test('toJSON / fromJSON', () => {
+		const data = { foo: true };
+		const map = new SourceMap([
+			{ sourceOffsets: [0], generatedOffsets: [10], lengths: [5], data },
+			{ source: 'bar', sourceOffsets: [5], generatedOffsets: [15], lengths: [5], data },
+		]);
+		const json = JSON.parse(JSON.stringify(map));
+		expect(json).toEqual({
+			data: [data],
+			mappings: [
+				{ sourceOffsets: [0], generatedOffsets: [10], lengths: [5], data: 0 },
+				{ source: 'bar', sourceOffsets: [5], generatedOffsets: [15], lengths: [5], data: 0 },
+			],
+		});
+		expect(SourceMap.fromJSON(json).getSourceOffset(17)?.[0]).toEqual(7);
+	});
+});
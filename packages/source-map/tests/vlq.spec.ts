@@ -0,0 +1,23 @@
+import { describe, expect, test } from 'vitest';
+import { decodeVLQ, encodeVLQ } from '../lib/vlq';
+
+describe('vlq', () => {
+	test('encode small values', () => {
+		expect(encodeVLQ([0, 0, 0, 0])).toEqual('AAAA');
+		expect(encodeVLQ([1, -1])).toEqual('CD');
+	});
+
+	test('encode large values', () => {
+		expect(encodeVLQ([16])).toEqual('gB');
+		expect(encodeVLQ([-1000])).toEqual('x+B');
+	});
+
+	test('decode', () => {
+		expect(decodeVLQ('AAAA')).toEqual([0, 0, 0, 0]);
+		expect(decodeVLQ('CDgBx+B')).toEqual([1, -1, 16, -1000]);
+	});
+
+	test('invalid character', () => {
+		expect(() => decodeVLQ('A!')).toThrow();
+	});
+});
@@ -1,23 +1,29 @@
 import {
 	CodeInformation,
 	FileRegistry,
+	isAutoInsertEnabled,
 	isCallHierarchyEnabled,
 	isCodeActionsEnabled,
 	isCompletionEnabled,
 	isDefinitionEnabled,
+	isDiagnosticsEnabled,
 	isHighlightEnabled,
 	isHoverEnabled,
 	isImplementationEnabled,
 	isInlayHintsEnabled,
+	isLinkedEditingEnabled,
 	isReferencesEnabled,
 	isRenameEnabled,
+	isSelectionRangesEnabled,
 	isSemanticTokensEnabled,
+	isSignatureHelpEnabled,
+	isSymbolsEnabled,
 	isTypeDefinitionEnabled,
 } from '@volar/language-core';
 import type * as ts from 'typescript';
 import { dedupeDocumentSpans, dedupeReferencedSymbols } from './dedupe';
 import { getVirtualFileAndMap, notEmpty } from './utils';
-import { transformCallHierarchyItem, transformDiagnostic, transformDocumentSpan, transformFileTextChanges, transformSpan } from './transform';
+import { transformCallHierarchyItem, transformDiagnostic, transformDocumentSpan, transformFileTextChanges, transformSelectionRange, transformSpan } from './transform';
 
 export function decorateLanguageService(files: FileRegistry, languageService: ts.LanguageService) {
 
@@ -77,6 +83,17 @@ export function decorateLanguageService(files: FileRegistry, languageService: ts
 		provideCallHierarchyOutgoingCalls,
 		provideInlayHints,
 		organizeImports,
+		getSignatureHelpItems,
+		getEditsForFileRename,
+		getSmartSelectionRange,
+		getLinkedEditingRangeAtPosition,
+		getCombinedCodeFix,
+		getNavigateToItems,
+		getBraceMatchingAtPosition,
+		getDocCommentTemplateAtPosition,
+		getTodoComments,
+		getJsxClosingTagAtPosition,
+		getSpanOfEnclosingComment,
 	} = languageService;
 
 	languageService.prepareCallHierarchy = (fileName, position) => {
@@ -617,6 +634,184 @@ export function decorateLanguageService(files: FileRegistry, languageService: ts
 			.filter(notEmpty);
 		return dedupeDocumentSpans(resolved);
 	};
+	languageService.getSignatureHelpItems = (fileName, position, options) => {
+		const [virtualCode, sourceFile, map] = getVirtualFileAndMap(files, fileName);
+		if (virtualCode) {
+			for (const [generateOffset, mapping] of map.getGeneratedOffsets(position)) {
+				if (isSignatureHelpEnabled(mapping.data)) {
+					const result = getSignatureHelpItems(fileName, generateOffset + sourceFile.snapshot.getLength(), options);
+					if (result) {
+						const applicableSpan = transformSpan(files, fileName, result.applicableSpan, isSignatureHelpEnabled)?.textSpan;
+						if (applicableSpan) {
+							return {
+								...result,
+								applicableSpan,
+							};
+						}
+					}
+				}
+			}
+		}
+		else {
+			return getSignatureHelpItems(fileName, position, options);
+		}
+	};
+	languageService.getEditsForFileRename = (oldFilePath, newFilePath, formatOptions, preferences) => {
+		const unresolved = getEditsForFileRename(oldFilePath, newFilePath, formatOptions, preferences);
+		const resolved = unresolved
+			.map(changes => transformFileTextChanges(files, changes, isRenameEnabled))
+			.filter(notEmpty);
+		return resolved;
+	};
+	languageService.getSmartSelectionRange = (fileName, position) => {
+		const [virtualCode, sourceFile, map] = getVirtualFileAndMap(files, fileName);
+		if (virtualCode) {
+			for (const [generateOffset, mapping] of map.getGeneratedOffsets(position)) {
+				if (isSelectionRangesEnabled(mapping.data)) {
+					const result = getSmartSelectionRange(fileName, generateOffset + sourceFile.snapshot.getLength());
+					const selectionRange = transformSelectionRange(files, fileName, result, isSelectionRangesEnabled);
+					if (selectionRange) {
+						return selectionRange;
+					}
+				}
+			}
+			return { textSpan: { start: position, length: 0 } };
+		}
+		else {
+			return getSmartSelectionRange(fileName, position);
+		}
+	};
+	languageService.getLinkedEditingRangeAtPosition = (fileName, position) => {
+		const [virtualCode, sourceFile, map] = getVirtualFileAndMap(files, fileName);
+		if (virtualCode) {
+			for (const [generateOffset, mapping] of map.getGeneratedOffsets(position)) {
+				if (isLinkedEditingEnabled(mapping.data)) {
+					const result = getLinkedEditingRangeAtPosition(fileName, generateOffset + sourceFile.snapshot.getLength());
+					if (result) {
+						const ranges = result.ranges
+							.map(range => transformSpan(files, fileName, range, isLinkedEditingEnabled)?.textSpan)
+							.filter(notEmpty);
+						if (ranges.length) {
+							return {
+								...result,
+								ranges,
+							};
+						}
+					}
+				}
+			}
+		}
+		else {
+			return getLinkedEditingRangeAtPosition(fileName, position);
+		}
+	};
+	languageService.getCombinedCodeFix = (scope, fixId, formatOptions, preferences) => {
+		const unresolved = getCombinedCodeFix(scope, fixId, formatOptions, preferences);
+		return {
+			...unresolved,
+			changes: unresolved.changes
+				.map(changes => transformFileTextChanges(files, changes, isCodeActionsEnabled))
+				.filter(notEmpty),
+		};
+	};
+	languageService.getNavigateToItems = (searchValue, maxResultCount, fileName, excludeDtsFiles) => {
+		const unresolved = getNavigateToItems(searchValue, maxResultCount, fileName, excludeDtsFiles);
+		const resolved = unresolved
+			.map(item => {
+				const textSpan = transformSpan(files, item.fileName, item.textSpan, isSymbolsEnabled)?.textSpan;
+				if (textSpan) {
+					return {
+						...item,
+						textSpan,
+					};
+				}
+			})
+			.filter(notEmpty);
+		return resolved;
+	};
+	languageService.getBraceMatchingAtPosition = (fileName, position) => {
+		const [virtualCode, sourceFile, map] = getVirtualFileAndMap(files, fileName);
+		if (virtualCode) {
+			for (const [generateOffset, mapping] of map.getGeneratedOffsets(position)) {
+				if (isHighlightEnabled(mapping.data)) {
+					const result = getBraceMatchingAtPosition(fileName, generateOffset + sourceFile.snapshot.getLength());
+					const spans = result
+						.map(span => transformSpan(files, fileName, span, isHighlightEnabled)?.textSpan)
+						.filter(notEmpty);
+					if (spans.length) {
+						return spans;
+					}
+				}
+			}
+			return [];
+		}
+		else {
+			return getBraceMatchingAtPosition(fileName, position);
+		}
+	};
+	languageService.getDocCommentTemplateAtPosition = (fileName, position, options, formatOptions) => {
+		const [virtualCode, sourceFile, map] = getVirtualFileAndMap(files, fileName);
+		if (virtualCode) {
+			for (const [generateOffset, mapping] of map.getGeneratedOffsets(position)) {
+				if (isCompletionEnabled(mapping.data)) {
+					return getDocCommentTemplateAtPosition(fileName, generateOffset + sourceFile.snapshot.getLength(), options, formatOptions);
+				}
+			}
+		}
+		else {
+			return getDocCommentTemplateAtPosition(fileName, position, options, formatOptions);
+		}
+	};
+	languageService.getTodoComments = (fileName, descriptors) => {
+		const [virtualCode, sourceFile, map] = getVirtualFileAndMap(files, fileName);
+		if (virtualCode) {
+			const comments: ts.TodoComment[] = [];
+			for (const comment of getTodoComments(fileName, descriptors)) {
+				for (const [sourcePosition, mapping] of map.getSourceOffsets(comment.position - sourceFile.snapshot.getLength())) {
+					if (isDiagnosticsEnabled(mapping.data)) {
+						comments.push({
+							...comment,
+							position: sourcePosition,
+						});
+						break;
+					}
+				}
+			}
+			return comments;
+		}
+		else {
+			return getTodoComments(fileName, descriptors);
+		}
+	};
+	languageService.getJsxClosingTagAtPosition = (fileName, position) => {
+		const [virtualCode, sourceFile, map] = getVirtualFileAndMap(files, fileName);
+		if (virtualCode) {
+			for (const [generateOffset, mapping] of map.getGeneratedOffsets(position)) {
+				if (isAutoInsertEnabled(mapping.data)) {
+					return getJsxClosingTagAtPosition(fileName, generateOffset + sourceFile.snapshot.getLength());
+				}
+			}
+		}
+		else {
+			return getJsxClosingTagAtPosition(fileName, position);
+		}
+	};
+	languageService.getSpanOfEnclosingComment = (fileName, position, onlyMultiLine) => {
+		const [virtualCode, sourceFile, map] = getVirtualFileAndMap(files, fileName);
+		if (virtualCode) {
+			for (const [generateOffset, mapping] of map.getGeneratedOffsets(position)) {
+				if (isCompletionEnabled(mapping.data)) {
+					const result = getSpanOfEnclosingComment(fileName, generateOffset + sourceFile.snapshot.getLength(), onlyMultiLine);
+					if (result) {
+						return transformSpan(files, fileName, result, isCompletionEnabled)?.textSpan;
+					}
+				}
+			}
+		}
+		else {
+			return getSpanOfEnclosingComment(fileName, position, onlyMultiLine);
+		}
+	};
 
 	function linkedCodeFeatureWorker<T>(
 		fileName: string,
@@ -74,6 +74,18 @@ export function transformFileTextChanges(files: FileRegistry, changes: ts.FileTe
 	}
 }
 
+export function transformSelectionRange(files: FileRegistry, fileName: string, range: ts.SelectionRange, filter: (data: CodeInformation) => boolean): ts.SelectionRange | undefined {
+	const textSpan = transformSpan(files, fileName, range.textSpan, filter)?.textSpan;
+	const parent = range.parent ? transformSelectionRange(files, fileName, range.parent, filter) : undefined;
+	if (!textSpan) {
+		return parent;
+	}
+	return {
+		textSpan,
+		parent,
+	};
+}
+
 export function transformDocumentSpan<T extends ts.DocumentSpan>(files: FileRegistry, documentSpan: T, filter: (data: CodeInformation) => boolean, shouldFallback?: boolean): T | undefined {
 	let textSpan = transformSpan(files, documentSpan.fileName, documentSpan.textSpan, filter);
 	if (!textSpan && shouldFallback) {
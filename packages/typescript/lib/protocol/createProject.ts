@@ -144,8 +144,14 @@ export function createLanguage(
 		let tsFileRegistry = new FileMap<boolean>(sys.useCaseSensitiveFileNames);
 		let lastTsVirtualFileSnapshots = new Set<ts.IScriptSnapshot>();
 		let lastOtherVirtualFileSnapshots = new Set<ts.IScriptSnapshot>();
+		let lastParsedCommandLinesVersion: number | undefined;
 
-		const languageServiceHost: ts.LanguageServiceHost = {
+		const parsedCommandLines = new Map<string, ts.ParsedCommandLine | undefined>();
+
+		const languageServiceHost: ts.LanguageServiceHost & {
+			// internal API of ts.LanguageServiceHost, same as tsserver
+			useSourceOfProjectReferenceRedirect?(): boolean;
+		} = {
 			...sys,
 			getCurrentDirectory: projectHost.getCurrentDirectory,
 			getCompilationSettings() {
@@ -161,6 +167,22 @@ export function createLanguage(
 			},
 			getLocalizedDiagnosticMessages: projectHost.getLocalizedDiagnosticMessages,
 			getProjectReferences: projectHost.getProjectReferences,
+			useSourceOfProjectReferenceRedirect() {
+				return !!projectHost.getProjectReferences?.()?.length
+					&& !projectHost.getCompilationSettings().disableSourceOfProjectReferenceRedirect;
+			},
+			getParsedCommandLine(fileName) {
+				// referenced projects also need extra file extensions to redirect to their sources
+				const sysVersion = 'version' in sys ? sys.version : undefined;
+				if (sysVersion === undefined || sysVersion !== lastParsedCommandLinesVersion) {
+					lastParsedCommandLinesVersion = sysVersion;
+					parsedCommandLines.clear();
+				}
+				if (!parsedCommandLines.has(fileName)) {
+					parsedCommandLines.set(fileName, parseCommandLine(fileName));
+				}
+				return parsedCommandLines.get(fileName);
+			},
 			getDefaultLibFileName: options => {
 				try {
 					return ts.getDefaultLibFilePath(options);
@@ -241,6 +263,22 @@ export function createLanguage(
 
 		return languageServiceHost;
 
+		function parseCommandLine(fileName: string) {
+			if (!sys.fileExists(fileName)) {
+				return;
+			}
+			const configFile = ts.readJsonConfigFile(fileName, sys.readFile);
+			return ts.parseJsonSourceFileConfigFileContent(
+				configFile,
+				sys,
+				path.dirname(fileName),
+				undefined,
+				fileName,
+				undefined,
+				languagePlugins.map(plugin => plugin.typescript?.extraFileExtensions ?? []).flat(),
+			);
+		}
+
 		function syncProject() {
 
 			const newProjectVersion = projectHost.getProjectVersion?.();
@@ -2,9 +2,12 @@ import * as vscode from 'vscode';
 
 export { activate as activateAutoInsertion } from './lib/features/autoInsertion';
 export { activate as activateDocumentDropEdit } from './lib/features/documentDropEdits';
+export { activate as activateDocumentPasteEdit } from './lib/features/documentPasteEdits';
 export { activate as activateWriteVirtualFiles } from './lib/features/writeVirtualFiles';
 export { activate as activateFindFileReferences } from './lib/features/fileReferences';
 export { activate as activateReloadProjects } from './lib/features/reloadProject';
+export { activate as activateVisibleDocuments } from './lib/features/visibleDocuments';
+export { activate as activateServerStatusItem } from './lib/features/serverStatus';
 export { activate as activateTsConfigStatusItem } from './lib/features/tsconfig';
 export { activate as activateServerSys } from './lib/features/serverSys';
 export { activate as activateTsVersionStatusItem, getTsdk } from './lib/features/tsVersion';
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { InsertTextFormat, type BaseLanguageClient } from 'vscode-languageclient';
+import { DocumentPasteRequest, DocumentPaste_DataTransferItemAsStringRequest, DocumentPaste_DataTransferItemFileDataRequest } from '@volar/language-server/protocol';
+
+/**
+ * The document paste API is not in `@types/vscode` yet, these are the parts of it used here.
+ */
+interface DocumentPasteApi {
+	DocumentPasteEdit: new (insertText: string | vscode.SnippetString, title: string, kind: DocumentDropOrPasteEditKind) => {
+		additionalEdit?: vscode.WorkspaceEdit;
+	};
+	DocumentDropOrPasteEditKind: {
+		Text: DocumentDropOrPasteEditKind;
+	};
+	languages: {
+		registerDocumentPasteEditProvider(
+			selector: vscode.DocumentSelector,
+			provider: {
+				provideDocumentPasteEdits(
+					document: vscode.TextDocument,
+					ranges: readonly vscode.Range[],
+					dataTransfer: vscode.DataTransfer,
+					context: unknown,
+					token: vscode.CancellationToken,
+				): vscode.ProviderResult<InstanceType<DocumentPasteApi['DocumentPasteEdit']>[]>;
+			},
+			metadata: {
+				providedPasteEditKinds: readonly DocumentDropOrPasteEditKind[];
+				pasteMimeTypes?: readonly string[];
+			},
+		): vscode.Disposable;
+	};
+}
+
+interface DocumentDropOrPasteEditKind {
+	append(...parts: string[]): DocumentDropOrPasteEditKind;
+}
+
+export function activate(selector: vscode.DocumentSelector, client: BaseLanguageClient) {
+
+	const api = vscode as unknown as Partial<DocumentPasteApi> & { languages: Partial<DocumentPasteApi['languages']>; };
+
+	if (!api.DocumentPasteEdit || !api.DocumentDropOrPasteEditKind || !api.languages.registerDocumentPasteEditProvider) {
+		return new vscode.Disposable(() => { });
+	}
+
+	const { DocumentPasteEdit } = api;
+	const kind = api.DocumentDropOrPasteEditKind.Text.append('volar');
+
+	let lastDataTransfer: vscode.DataTransfer;
+
+	return vscode.Disposable.from(
+		client.onRequest(DocumentPaste_DataTransferItemAsStringRequest.type, async ({ mimeType }) => {
+			const item = lastDataTransfer.get(mimeType);
+			return await item?.asString() ?? '';
+		}),
+		client.onRequest(DocumentPaste_DataTransferItemFileDataRequest.type, async ({ mimeType }) => {
+			const item = lastDataTransfer.get(mimeType);
+			return await item?.asFile()?.data() ?? new Uint8Array();
+		}),
+		api.languages.registerDocumentPasteEditProvider(
+			selector,
+			{
+				async provideDocumentPasteEdits(document, ranges, dataTransfer, _context, token) {
+
+					lastDataTransfer = dataTransfer;
+
+					const result = await client.sendRequest(DocumentPasteRequest.type, {
+						textDocument: client.code2ProtocolConverter.asTextDocumentIdentifier(document),
+						ranges: ranges.map(range => client.code2ProtocolConverter.asRange(range)),
+						dataTransfer: [...dataTransfer].map(([mimeType, item]) => {
+							const file = item.asFile();
+							return {
+								mimeType,
+								value: item.value,
+								file: file ? {
+									name: file.name,
+									uri: file.uri ? client.code2ProtocolConverter.asUri(file.uri) : undefined,
+								} : undefined,
+							};
+						}),
+					}, token);
+
+					if (result) {
+						const edit = new DocumentPasteEdit(
+							result.insertTextFormat === InsertTextFormat.Snippet ? new vscode.SnippetString(result.insertText) : result.insertText,
+							result.title ?? 'Paste',
+							kind,
+						);
+						if (result.additionalEdit) {
+							edit.additionalEdit = await client.protocol2CodeConverter.asWorkspaceEdit(result.additionalEdit);
+						}
+						return [edit];
+					}
+				},
+			},
+			{
+				providedPasteEditKinds: [kind],
+				pasteMimeTypes: ['text/plain'],
+			},
+		),
+	);
+}
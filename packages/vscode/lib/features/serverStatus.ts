@@ -0,0 +1,48 @@
+import * as vscode from 'vscode';
+import type { BaseLanguageClient } from 'vscode-languageclient';
+import { ServerStatusNotification } from '@volar/language-server/protocol';
+
+export function activate(selector: vscode.DocumentSelector, client: BaseLanguageClient) {
+
+	const subscriptions: vscode.Disposable[] = [];
+	const statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right);
+	let status: ServerStatusNotification.ParamsType | undefined;
+
+	subscriptions.push({ dispose: () => statusBar.dispose() });
+	subscriptions.push(client.onNotification(ServerStatusNotification.type, params => {
+		status = params;
+		updateStatusBar();
+	}));
+
+	vscode.window.onDidChangeActiveTextEditor(updateStatusBar, undefined, subscriptions);
+
+	updateStatusBar();
+
+	return vscode.Disposable.from(...subscriptions);
+
+	function updateStatusBar() {
+		if (
+			!status
+			|| !vscode.window.activeTextEditor
+			|| !vscode.languages.match(selector, vscode.window.activeTextEditor.document)
+		) {
+			statusBar.hide();
+			return;
+		}
+		const projects = status.projects;
+		if (status.state === 'loading') {
+			const loading = projects.filter(project => project.state === 'loading');
+			statusBar.text = `$(sync~spin) ${loading.length === 1 ? loading[0].message ?? 'Loading' : `Loading ${loading.length} projects`}`;
+		}
+		else if (status.state === 'error') {
+			statusBar.text = `$(error) ${projects.filter(project => project.state === 'error').length} of ${projects.length} projects failed`;
+		}
+		else {
+			statusBar.text = `$(check) ${projects.length} ${projects.length === 1 ? 'project' : 'projects'}`;
+		}
+		statusBar.tooltip = projects
+			.map(project => `${project.name}: ${project.message ?? project.state}${project.fileCount !== undefined ? ` (${project.fileCount} files)` : ''}`)
+			.join('\n');
+		statusBar.show();
+	}
+}
@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import type { BaseLanguageClient } from 'vscode-languageclient';
+import { VisibleDocumentsNotification } from '@volar/language-server/protocol';
+
+export function activate(selector: vscode.DocumentSelector, client: BaseLanguageClient) {
+
+	let timeout: NodeJS.Timeout | undefined;
+
+	sendVisibleDocuments();
+
+	const d1 = vscode.window.onDidChangeVisibleTextEditors(onDidChange, null);
+	const d2 = vscode.window.onDidChangeActiveTextEditor(onDidChange, null);
+
+	return vscode.Disposable.from(d1, d2, { dispose: () => clearTimeout(timeout) });
+
+	function onDidChange() {
+		if (timeout) {
+			clearTimeout(timeout);
+		}
+		timeout = setTimeout(sendVisibleDocuments, 100);
+	}
+
+	function sendVisibleDocuments() {
+		const uris = vscode.window.visibleTextEditors
+			.filter(editor => vscode.languages.match(selector, editor.document))
+			.map(editor => client.code2ProtocolConverter.asUri(editor.document.uri));
+		const activeDocument = vscode.window.activeTextEditor?.document;
+		client.sendNotification(VisibleDocumentsNotification.type, {
+			uris: [...new Set(uris)],
+			activeUri: activeDocument && vscode.languages.match(selector, activeDocument)
+				? client.code2ProtocolConverter.asUri(activeDocument.uri)
+				: undefined,
+		});
+	}
+}